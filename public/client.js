@@ -25,6 +25,12 @@ socket.on('connect', () => {
   connectionStatus.textContent = 'Connected';
   connectionStatus.className = 'status connected';
   logEvent('Connected to server', 'success');
+
+  // Rooms are per connection, re-join after reconnects
+  if (currentAuction) {
+    socket.emit('joinAuction', currentAuction._id);
+  }
+  identifySocket();
 });
 
 socket.on('disconnect', () => {
@@ -35,7 +41,8 @@ socket.on('disconnect', () => {
 
 // Real-time event handlers
 socket.on('newBid', (data) => {
-  logEvent(`New bid: ${data.amount} from ...${data.userId.slice(-6)}`, 'bid');
+  // Sealed rounds send neither amount nor bidder
+  logEvent(data.userId ? `New bid: ${data.amount} from ...${data.userId.slice(-6)}` : 'New sealed bid', 'bid');
   if (currentAuction && data.auctionId === currentAuction._id) {
     fetchLeaderboard();
   }
@@ -49,10 +56,20 @@ socket.on('roundExtended', (data) => {
   }
 });
 
+socket.on('roundStarted', (data) => {
+  logEvent(`Round ${data.roundNumber} started, ends at ${formatTime(new Date(data.endTime))}`, 'info');
+  if (currentAuction && data.auctionId === currentAuction._id) {
+    currentRoundEndTime = new Date(data.endTime);
+  }
+});
+
 socket.on('roundEnd', (data) => {
+  const price = data.clearingPrice !== null && data.clearingPrice !== undefined
+    ? ` Clearing price: ${data.clearingPrice}.`
+    : '';
   const msg = data.nextRound 
-    ? `Round ${data.roundNumber} ended! Winners: ${data.winnersCount}. Next: Round ${data.nextRound}` 
-    : `Auction completed! Winners: ${data.winnersCount}`;
+    ? `Round ${data.roundNumber} ended! Winners: ${data.winnersCount}.${price} Next: Round ${data.nextRound}` 
+    : `Auction completed! Winners: ${data.winnersCount}.${price}`;
   logEvent(msg, 'success');
   
   // Force refresh after round ends
@@ -61,6 +78,71 @@ socket.on('roundEnd', (data) => {
   }, 500);
 });
 
+socket.on('roundDelayed', (data) => {
+  logEvent(`Round ${data.roundNumber} results are delayed, retrying...`, 'warning');
+});
+
+socket.on('auctionStarted', (data) => {
+  logEvent(`Auction started: ${data.title}`, 'success');
+  fetchAuction();
+});
+
+socket.on('auctionCancelled', (data) => {
+  logEvent(`Auction cancelled, ${data.bidsRefunded} bids refunded`, 'warning');
+  fetchAuction();
+  fetchUsers();
+});
+
+// Personal events, delivered only to the authenticated user's room
+socket.on('outbid', (data) => {
+  logEvent(`You were outbid in round ${data.roundNumber} (${data.amount})`, 'warning');
+});
+
+socket.on('wonItem', (data) => {
+  logEvent(`You won item #${data.itemSerialNumber} for ${data.amount}!`, 'success');
+});
+
+socket.on('itemReceived', (data) => {
+  logEvent(`You received item #${data.serialNumber} as a gift`, 'success');
+});
+
+socket.on('offerReceived', (data) => {
+  logEvent(`New offer of ${data.amount} for your item #${data.serialNumber}`, 'info');
+});
+
+socket.on('marketSaleCompleted', (data) => {
+  logEvent(`Item #${data.serialNumber} sold for ${data.price} (you get ${data.sale.sellerProceeds})`, 'success');
+});
+
+socket.on('proxyRaised', (data) => {
+  logEvent(`Proxy raised your bid to ${data.amount} (max ${data.maxAmount})`, 'info');
+});
+
+socket.on('proxyExhausted', (data) => {
+  logEvent(`Proxy stopped: ${data.reason}`, 'warning');
+});
+
+function identifySocket() {
+  const initData = window.Telegram?.WebApp?.initData;
+  const userId = userIdInput.value.trim();
+
+  if (initData) {
+    socket.emit('authenticate', { initData });
+  } else if (userId) {
+    socket.emit('authenticate', { debugUserId: userId });
+  }
+}
+
+function setCurrentAuction(auction) {
+  if (currentAuction && currentAuction._id !== auction._id) {
+    socket.emit('leaveAuction', currentAuction._id);
+  }
+  if (!currentAuction || currentAuction._id !== auction._id) {
+    socket.emit('joinAuction', auction._id);
+  }
+  currentAuction = auction;
+}
+
 // Fetch functions
 async function fetchAuction() {
   try {
@@ -70,7 +152,8 @@ async function fetchAuction() {
     console.log('Auction API response:', data);
     
     if (data.success && data.data && data.data.length > 0) {
-      currentAuction = data.data[0];
+      // Listings include scheduled auctions; show a running one when there is one
+      setCurrentAuction(data.data.find(a => a.status === 'active') || data.data[0]);
       renderAuctionDetails();
       startTimer();
       fetchLeaderboard();
@@ -96,6 +179,8 @@ async function fetchLeaderboard() {
     
     if (data.success) {
       renderLeaderboard(data.data.leaderboard, data.data.roundNumber);
+    } else if (response.status === 403) {
+      leaderboardDiv.innerHTML = '<div class="empty-state">Bids are sealed until the round closes</div>';
     }
   } catch (error) {
     console.error('Error fetching leaderboard:', error);
@@ -214,6 +299,16 @@ function updateTimer() {
   }
 }
 
+// Auth: inside Telegram the signed initData is sent, otherwise the selected
+// user ID is passed as a debug header (accepted only when the server allows it)
+function authHeaders(userId) {
+  const initData = window.Telegram?.WebApp?.initData;
+  if (initData) {
+    return { Authorization: `tma ${initData}` };
+  }
+  return { 'X-Debug-User-Id': userId };
+}
+
 // Event logging
 function logEvent(message, type = 'info') {
   const eventEl = document.createElement('div');
@@ -260,8 +355,13 @@ bidForm.addEventListener('submit', async (e) => {
   try {
     const response = await fetch(`/api/auctions/${currentAuction._id}/bid`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ userId, amount }),
+      headers: {
+        'Content-Type': 'application/json',
+        // One key per click: a resend of this request must not raise the bid twice
+        'Idempotency-Key': crypto.randomUUID(),
+        ...authHeaders(userId),
+      },
+      body: JSON.stringify({ amount }),
     });
     
     const data = await response.json();
@@ -400,6 +500,7 @@ function renderUsersList(users) {
 
 function selectUser(userId) {
   userIdInput.value = userId;
+  identifySocket();
   userIdInput.focus();
   logEvent(`Selected user: ...${userId.slice(-6)}`, 'info');
 }
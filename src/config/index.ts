@@ -1,8 +1,47 @@
+import os from 'os';
+
 export * from './database';
 
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
+  // Identifies this replica in distributed locks and /health
+  instanceId: process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}`,
   antiSnipeWindowSeconds: parseInt(process.env.ANTI_SNIPE_WINDOW_SECONDS || '30', 10),
   antiSnipeExtensionSeconds: parseInt(process.env.ANTI_SNIPE_EXTENSION_SECONDS || '30', 10),
+  // Defaults for new auctions; empty means unlimited
+  antiSnipeMaxExtensions: process.env.ANTI_SNIPE_MAX_EXTENSIONS
+    ? parseInt(process.env.ANTI_SNIPE_MAX_EXTENSIONS, 10)
+    : null,
+  antiSnipeHardCapSeconds: process.env.ANTI_SNIPE_HARD_CAP_SECONDS
+    ? parseInt(process.env.ANTI_SNIPE_HARD_CAP_SECONDS, 10)
+    : null,
+  telegramBotToken: process.env.TELEGRAM_BOT_TOKEN || '',
+  telegramAuthMaxAgeSeconds: parseInt(process.env.TELEGRAM_AUTH_MAX_AGE_SECONDS || '86400', 10),
+  // Accept X-Debug-User-Id instead of initData (demo UI, bots, load tests).
+  // Lets anyone act as any user, so it is off unless explicitly enabled.
+  allowDebugAuth: process.env.ALLOW_DEBUG_AUTH === 'true',
+  adminApiKey: process.env.ADMIN_API_KEY || '',
+  // Rounds end on Redis-backed timers; this poll only catches what they missed
+  schedulerSafetyPollCron: process.env.SCHEDULER_SAFETY_POLL_CRON || '*/30 * * * * *',
+  reconciliationCron: process.env.RECONCILIATION_CRON || '0 */10 * * * *',
+  // Bids settled per transaction when a round finalizes
+  finalizationBatchSize: parseInt(process.env.FINALIZATION_BATCH_SIZE || '500', 10),
+  // A FINALIZING round without checkpoint progress for this long is considered stuck and retried
+  finalizationStuckTimeoutSeconds: parseInt(process.env.FINALIZATION_STUCK_TIMEOUT_SECONDS || '60', 10),
+  // TTL of the per-round finalization lock; the holder keeps extending it while alive
+  roundLockTtlMs: parseInt(process.env.ROUND_LOCK_TTL_MS || '30000', 10),
+  // How long a bid response is kept for replay under its Idempotency-Key
+  idempotencyKeyTtlSeconds: parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS || '86400', 10),
+  // How long a claimed key stays "in progress"; a crashed request frees it after this
+  idempotencyInProgressTtlSeconds: parseInt(process.env.IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS || '60', 10),
+  // Upper bound on automatic raises per proxy resolution pass
+  proxyMaxRaisesPerRun: parseInt(process.env.PROXY_MAX_RAISES_PER_RUN || '200', 10),
+  // Marketplace cut of every resale, credited to the treasury user
+  marketplaceFeePercent: parseFloat(process.env.MARKETPLACE_FEE_PERCENT || '5'),
+  // User that receives marketplace fees; without one no fee is charged
+  marketplaceTreasuryUserId: process.env.MARKETPLACE_TREASURY_USER_ID || null,
+  // Paid to the creator of the auction the item came from
+  marketplaceRoyaltyPercent: parseFloat(process.env.MARKETPLACE_ROYALTY_PERCENT || '5'),
+  reconciliationAutoApply: process.env.RECONCILIATION_AUTO_APPLY === 'true',
 };
@@ -1,19 +1,320 @@
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
 import { AuctionService } from '../services/AuctionService';
-import { AppError } from '../utils/errors';
+import { ProxyBidService } from '../services/ProxyBidService';
+import { IdempotencyService, StoredResponse } from '../services/IdempotencyService';
+import { TIE_BREAK_RULE } from '../services/LeaderboardService';
+import {
+  IAuction,
+  IMinIncrement,
+  AuctionStatus,
+  AuctionType,
+  IDutchSettings,
+  AntiSnipeMode,
+  IncrementType,
+  PricingMode,
+  WithdrawalPolicy,
+  IItemTemplate,
+  ItemRarity,
+} from '../models';
+import { isAdminRequest } from '../middleware/adminAuth';
+import { DEFAULT_NAME_PATTERN } from '../utils/itemTemplate';
+import {
+  AppError,
+  UnauthorizedError,
+  ForbiddenError,
+  AuctionNotFoundError,
+  AuctionNotPendingError,
+} from '../utils/errors';
+
+// Printable ASCII without spaces, like the keys clients usually send (UUIDs)
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Optional anti-snipe settings from a create request. Returns an error
+// message instead of throwing so the handler can answer 400 like its other checks.
+const parseAntiSnipeOptions = (body: Record<string, unknown>): {
+  antiSnipeWindowSeconds?: number;
+  antiSnipeExtensionSeconds?: number;
+  antiSnipeMaxExtensions?: number | null;
+  antiSnipeHardCapSeconds?: number | null;
+  antiSnipeMode?: AntiSnipeMode;
+} | string => {
+  const options: ReturnType<typeof parseAntiSnipeOptions> = {};
+  const isNonNegative = (v: unknown): v is number => typeof v === 'number' && v >= 0;
+
+  for (const key of ['antiSnipeWindowSeconds', 'antiSnipeExtensionSeconds'] as const) {
+    if (body[key] !== undefined) {
+      if (!isNonNegative(body[key])) {
+        return `${key} must be a non-negative number`;
+      }
+      options[key] = body[key] as number;
+    }
+  }
+
+  // These two accept null to mean "no limit"
+  for (const key of ['antiSnipeMaxExtensions', 'antiSnipeHardCapSeconds'] as const) {
+    if (body[key] !== undefined) {
+      if (body[key] !== null && !isNonNegative(body[key])) {
+        return `${key} must be a non-negative number or null`;
+      }
+      options[key] = body[key] as number | null;
+    }
+  }
+
+  if (body.antiSnipeMode !== undefined) {
+    if (!Object.values(AntiSnipeMode).includes(body.antiSnipeMode as AntiSnipeMode)) {
+      return `antiSnipeMode must be one of: ${Object.values(AntiSnipeMode).join(', ')}`;
+    }
+    options.antiSnipeMode = body.antiSnipeMode as AntiSnipeMode;
+  }
+
+  return options;
+};
+
+// minBid, minIncrement ({ type, value }), reservePrice (one number for every
+// round or an array with one entry per round), pricingMode and the withdrawal rules
+const parseBidRules = (body: Record<string, unknown>, totalRounds: number): {
+  minBid?: number;
+  minIncrement?: IMinIncrement;
+  reservePrices?: number[];
+  pricingMode?: PricingMode;
+  withdrawalPolicy?: WithdrawalPolicy;
+  withdrawalPenaltyPercent?: number;
+} | string => {
+  const rules: ReturnType<typeof parseBidRules> = {};
+
+  if (body.minBid !== undefined) {
+    if (typeof body.minBid !== 'number' || body.minBid < 1) {
+      return 'minBid must be a number >= 1';
+    }
+    rules.minBid = body.minBid;
+  }
+
+  if (body.minIncrement !== undefined) {
+    const increment = body.minIncrement as Partial<IMinIncrement> | null;
+    if (
+      !increment ||
+      !Object.values(IncrementType).includes(increment.type as IncrementType) ||
+      typeof increment.value !== 'number' ||
+      increment.value < 0
+    ) {
+      return `minIncrement must be { type: ${Object.values(IncrementType).join(' | ')}, value: number >= 0 }`;
+    }
+    rules.minIncrement = { type: increment.type as IncrementType, value: increment.value };
+  }
+
+  if (body.reservePrice !== undefined) {
+    const reserve = body.reservePrice;
+    if (Array.isArray(reserve) && reserve.length !== totalRounds) {
+      return 'reservePrice array must have exactly totalRounds entries';
+    }
+    const prices = Array.isArray(reserve) ? reserve : Array(totalRounds).fill(reserve);
+
+    if (prices.some(p => typeof p !== 'number' || p < 0)) {
+      return 'reservePrice must be a non-negative number or an array of them';
+    }
+    rules.reservePrices = prices as number[];
+  }
+
+  if (body.pricingMode !== undefined) {
+    if (!Object.values(PricingMode).includes(body.pricingMode as PricingMode)) {
+      return `pricingMode must be one of: ${Object.values(PricingMode).join(', ')}`;
+    }
+    rules.pricingMode = body.pricingMode as PricingMode;
+  }
+
+  if (body.withdrawalPolicy !== undefined) {
+    if (!Object.values(WithdrawalPolicy).includes(body.withdrawalPolicy as WithdrawalPolicy)) {
+      return `withdrawalPolicy must be one of: ${Object.values(WithdrawalPolicy).join(', ')}`;
+    }
+    rules.withdrawalPolicy = body.withdrawalPolicy as WithdrawalPolicy;
+  }
+
+  if (body.withdrawalPenaltyPercent !== undefined) {
+    const pct = body.withdrawalPenaltyPercent;
+    if (typeof pct !== 'number' || pct < 0 || pct > 100) {
+      return 'withdrawalPenaltyPercent must be a number between 0 and 100';
+    }
+    rules.withdrawalPenaltyPercent = pct;
+  }
+
+  return rules;
+};
+
+const MAX_TEMPLATE_ATTRIBUTES = 50;
+const MAX_TEMPLATE_ATTRIBUTE_LENGTH = 200;
+
+// itemTemplate: { namePattern, description, imageUrl, attributes, rarityWeights
+// or rarities, shuffle, shuffleSeed }
+const parseItemTemplate = (raw: unknown): IItemTemplate | string => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return 'itemTemplate must be an object';
+  }
+
+  const body = raw as Record<string, unknown>;
+  const rarityValues = Object.values(ItemRarity) as string[];
+
+  const template: IItemTemplate = {
+    namePattern: DEFAULT_NAME_PATTERN,
+    description: null,
+    imageUrl: null,
+    attributes: {},
+    rarityWeights: null,
+    rarities: null,
+    shuffle: false,
+    shuffleSeed: null,
+  };
+
+  if (body.namePattern !== undefined) {
+    if (typeof body.namePattern !== 'string' || body.namePattern.trim() === '' || body.namePattern.length > 200) {
+      return 'itemTemplate.namePattern must be a non-empty string of at most 200 characters';
+    }
+    template.namePattern = body.namePattern;
+  }
+
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string' || body.description.length > 2000) {
+      return 'itemTemplate.description must be a string of at most 2000 characters';
+    }
+    template.description = body.description;
+  }
+
+  if (body.imageUrl !== undefined && body.imageUrl !== null) {
+    if (typeof body.imageUrl !== 'string' || !/^https?:\/\/\S+$/.test(body.imageUrl)) {
+      return 'itemTemplate.imageUrl must be an http(s) URL';
+    }
+    template.imageUrl = body.imageUrl;
+  }
+
+  if (body.attributes !== undefined) {
+    if (typeof body.attributes !== 'object' || body.attributes === null || Array.isArray(body.attributes)) {
+      return 'itemTemplate.attributes must be an object';
+    }
+    const entries = Object.entries(body.attributes as Record<string, unknown>);
+    if (entries.length > MAX_TEMPLATE_ATTRIBUTES) {
+      return `itemTemplate.attributes may have at most ${MAX_TEMPLATE_ATTRIBUTES} keys`;
+    }
+    for (const [key, value] of entries) {
+      const valid =
+        (typeof value === 'string' && value.length <= MAX_TEMPLATE_ATTRIBUTE_LENGTH) ||
+        (typeof value === 'number' && Number.isFinite(value)) ||
+        typeof value === 'boolean';
+      if (!valid || key.length > MAX_TEMPLATE_ATTRIBUTE_LENGTH || key.startsWith('$') || key.includes('.')) {
+        return `itemTemplate.attributes.${key} must be a string, number or boolean`;
+      }
+    }
+    template.attributes = body.attributes as Record<string, string | number | boolean>;
+  }
+
+  if (body.rarityWeights !== undefined && body.rarities !== undefined) {
+    return 'itemTemplate accepts either rarityWeights or rarities, not both';
+  }
+
+  if (body.rarityWeights !== undefined) {
+    if (typeof body.rarityWeights !== 'object' || body.rarityWeights === null || Array.isArray(body.rarityWeights)) {
+      return 'itemTemplate.rarityWeights must be an object of tier -> weight';
+    }
+    const weights: Partial<Record<ItemRarity, number>> = {};
+    for (const [tier, weight] of Object.entries(body.rarityWeights as Record<string, unknown>)) {
+      if (!rarityValues.includes(tier)) {
+        return `itemTemplate.rarityWeights: unknown tier ${tier}, expected one of: ${rarityValues.join(', ')}`;
+      }
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        return `itemTemplate.rarityWeights.${tier} must be a non-negative number`;
+      }
+      weights[tier as ItemRarity] = weight;
+    }
+    if (!Object.values(weights).some(weight => weight! > 0)) {
+      return 'itemTemplate.rarityWeights needs at least one positive weight';
+    }
+    template.rarityWeights = weights;
+  }
+
+  if (body.rarities !== undefined) {
+    if (!Array.isArray(body.rarities) || !body.rarities.every(r => rarityValues.includes(r as string))) {
+      return `itemTemplate.rarities must be an array of: ${rarityValues.join(', ')}`;
+    }
+    template.rarities = body.rarities as ItemRarity[];
+  }
+
+  if (body.shuffle !== undefined) {
+    if (typeof body.shuffle !== 'boolean') {
+      return 'itemTemplate.shuffle must be a boolean';
+    }
+    template.shuffle = body.shuffle;
+  }
+
+  if (body.shuffleSeed !== undefined && body.shuffleSeed !== null) {
+    if (typeof body.shuffleSeed !== 'string' || body.shuffleSeed.length === 0 || body.shuffleSeed.length > 128) {
+      return 'itemTemplate.shuffleSeed must be a string of 1-128 characters';
+    }
+    template.shuffleSeed = body.shuffleSeed;
+  }
+
+  return template;
+};
+
+// type and, for Dutch auctions, the price schedule:
+// dutch: { startPrice, priceStep, floorPrice = 1, tickSeconds = 10 }
+const parseAuctionType = (body: Record<string, unknown>): {
+  type?: AuctionType;
+  dutch?: IDutchSettings;
+} | string => {
+  if (body.type === undefined) {
+    return {};
+  }
+
+  if (!Object.values(AuctionType).includes(body.type as AuctionType)) {
+    return `type must be one of: ${Object.values(AuctionType).join(', ')}`;
+  }
+
+  const type = body.type as AuctionType;
+
+  if (type !== AuctionType.DUTCH) {
+    return { type };
+  }
+
+  const settings = (body.dutch || {}) as Partial<IDutchSettings>;
+  const dutch: IDutchSettings = {
+    startPrice: settings.startPrice as number,
+    priceStep: settings.priceStep as number,
+    floorPrice: settings.floorPrice ?? 1,
+    tickSeconds: settings.tickSeconds ?? 10,
+  };
+
+  for (const key of ['startPrice', 'priceStep', 'floorPrice', 'tickSeconds'] as const) {
+    if (typeof dutch[key] !== 'number' || dutch[key] < 1) {
+      return `dutch.${key} must be a number >= 1`;
+    }
+  }
+
+  if (dutch.floorPrice > dutch.startPrice) {
+    return 'dutch.floorPrice cannot be above dutch.startPrice';
+  }
+
+  return { type, dutch };
+};
 
 export class AuctionController {
   private auctionService: AuctionService;
+  private proxyBidService: ProxyBidService;
+  private idempotency?: IdempotencyService;
 
-  constructor(auctionService: AuctionService) {
+  constructor(auctionService: AuctionService, proxyBidService: ProxyBidService, idempotency?: IdempotencyService) {
     this.auctionService = auctionService;
+    this.proxyBidService = proxyBidService;
+    this.idempotency = idempotency;
   }
 
   placeBid = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
-      const { userId, amount } = req.body;
+      // The bidder is always the authenticated user; a userId in the body is ignored
+      const { amount } = req.body;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
 
       if (!id || !mongoose.Types.ObjectId.isValid(id)) {
         res.status(400).json({
@@ -23,36 +324,117 @@ export class AuctionController {
         return;
       }
 
-      if (!userId || !mongoose.Types.ObjectId.isValid(userId)) {
+      if (!amount || typeof amount !== 'number' || amount <= 0) {
         res.status(400).json({
           success: false,
-          error: 'Invalid user ID',
+          error: 'Invalid bid amount. Must be a positive number.',
         });
         return;
       }
 
-      if (!amount || typeof amount !== 'number' || amount <= 0) {
+      // A second call on an existing bid adds `amount` again, so client retries
+      // must carry a key to be recognised as the same request
+      const idempotencyKey = req.get('Idempotency-Key');
+
+      if (idempotencyKey !== undefined && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
         res.status(400).json({
           success: false,
-          error: 'Invalid bid amount. Must be a positive number.',
+          error: 'Idempotency-Key must be 1-255 visible ASCII characters',
         });
         return;
       }
 
-      const result = await this.auctionService.placeBid(
-        new mongoose.Types.ObjectId(userId),
-        new mongoose.Types.ObjectId(id),
-        amount
+      const userId = req.user._id;
+      const placeBid = async (): Promise<StoredResponse> => {
+        // Through the proxy service so proxies can answer the bid
+        const result = await this.proxyBidService.placeBid(
+          userId,
+          new mongoose.Types.ObjectId(id),
+          amount
+        );
+
+        return {
+          statusCode: 201,
+          body: {
+            success: true,
+            data: {
+              bidId: result.bid._id,
+              amount: result.bid.amount,
+              roundNumber: result.bid.roundNumber,
+              roundExtended: result.roundExtended,
+              newEndTime: result.newEndTime,
+            },
+          },
+        };
+      };
+
+      if (!idempotencyKey || !this.idempotency) {
+        const response = await placeBid();
+        res.status(response.statusCode).json(response.body);
+        return;
+      }
+
+      const scope = `bid:${userId.toString()}`;
+      const fingerprint = JSON.stringify({ auctionId: id, amount });
+      const stored = await this.idempotency.begin(scope, idempotencyKey, fingerprint);
+
+      if (stored) {
+        res.set('Idempotent-Replayed', 'true');
+        res.status(stored.statusCode).json(stored.body);
+        return;
+      }
+
+      let response: StoredResponse;
+      try {
+        response = await placeBid();
+      } catch (error) {
+        // placeBid only throws before its transaction commits (post-commit work
+        // is logged, not thrown), so nothing was applied and a retry may run it again
+        await this.idempotency.release(scope, idempotencyKey);
+        throw error;
+      }
+
+      try {
+        await this.idempotency.complete(scope, idempotencyKey, fingerprint, response);
+      } catch (storeError) {
+        // The bid went through; only a later replay is affected
+        console.error(`Failed to store response for Idempotency-Key ${idempotencyKey}:`, storeError);
+      }
+
+      res.status(response.statusCode).json(response.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  withdrawBid = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      const result = await this.proxyBidService.withdrawBid(
+        req.user._id,
+        new mongoose.Types.ObjectId(id)
       );
 
-      res.status(201).json({
+      res.status(200).json({
         success: true,
         data: {
           bidId: result.bid._id,
           amount: result.bid.amount,
-          roundNumber: result.bid.roundNumber,
-          roundExtended: result.roundExtended,
-          newEndTime: result.newEndTime,
+          refunded: result.refunded,
+          penalty: result.penalty,
         },
       });
     } catch (error) {
@@ -60,6 +442,110 @@ export class AuctionController {
     }
   };
 
+  setProxyBid = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { maxAmount, step = 1 } = req.body;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      if (typeof maxAmount !== 'number' || !Number.isFinite(maxAmount) || maxAmount <= 0) {
+        res.status(400).json({
+          success: false,
+          error: 'maxAmount must be a positive number',
+        });
+        return;
+      }
+
+      if (typeof step !== 'number' || !Number.isInteger(step) || step < 1) {
+        res.status(400).json({
+          success: false,
+          error: 'step must be a positive integer',
+        });
+        return;
+      }
+
+      const proxy = await this.proxyBidService.setProxy(
+        req.user._id,
+        new mongoose.Types.ObjectId(id),
+        maxAmount,
+        step
+      );
+
+      res.status(200).json({
+        success: true,
+        data: proxy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Only the owner sees their proxy; nothing about it is shown to other bidders
+  getProxyBid = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      const proxy = await this.proxyBidService.getProxy(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: proxy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  cancelProxyBid = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      const proxy = await this.proxyBidService.cancelProxy(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: proxy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getAuction = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
@@ -129,6 +615,7 @@ export class AuctionController {
         data: {
           auctionId: id,
           roundNumber,
+          tieBreak: TIE_BREAK_RULE,
           leaderboard,
         },
       });
@@ -178,6 +665,7 @@ export class AuctionController {
           auctionId: id,
           userId,
           roundNumber,
+          tieBreak: TIE_BREAK_RULE,
           ...rankInfo,
         },
       });
@@ -186,6 +674,50 @@ export class AuctionController {
     }
   };
 
+  getBidRequirements = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.query.userId as string | undefined;
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      if (userId && !mongoose.Types.ObjectId.isValid(userId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid user ID',
+        });
+        return;
+      }
+
+      // A sealed bid's amount is shown to its bidder only
+      if (userId && (!req.user || req.user._id.toString() !== userId)) {
+        const auction = await this.auctionService.getAuctionById(new mongoose.Types.ObjectId(id));
+
+        if (auction && auction.type === AuctionType.SEALED_BID) {
+          throw new ForbiddenError('Sealed bids are visible to their bidder only');
+        }
+      }
+
+      const requirements = await this.auctionService.getBidRequirements(
+        new mongoose.Types.ObjectId(id),
+        userId ? new mongoose.Types.ObjectId(userId) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: requirements,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getActiveAuctions = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const auctions = await this.auctionService.getActiveAuctions();
@@ -201,19 +733,60 @@ export class AuctionController {
 
   createAuction = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { title, description, itemsPerRound, totalRounds, roundDurationMinutes } = req.body;
+      const { title, description, itemsPerRound, totalRounds, roundDurationMinutes, startAt } = req.body;
 
       if (!title || typeof title !== 'string') {
         res.status(400).json({ success: false, error: 'Title is required' });
         return;
       }
 
+      const startDate = startAt ? new Date(startAt) : undefined;
+
+      if (startDate && isNaN(startDate.getTime())) {
+        res.status(400).json({ success: false, error: 'Invalid startAt date' });
+        return;
+      }
+
+      const antiSnipe = parseAntiSnipeOptions(req.body);
+
+      if (typeof antiSnipe === 'string') {
+        res.status(400).json({ success: false, error: antiSnipe });
+        return;
+      }
+
+      const bidRules = parseBidRules(req.body, totalRounds || 5);
+
+      if (typeof bidRules === 'string') {
+        res.status(400).json({ success: false, error: bidRules });
+        return;
+      }
+
+      const auctionType = parseAuctionType(req.body);
+
+      if (typeof auctionType === 'string') {
+        res.status(400).json({ success: false, error: auctionType });
+        return;
+      }
+
+      const itemTemplate = req.body.itemTemplate === undefined ? null : parseItemTemplate(req.body.itemTemplate);
+
+      if (typeof itemTemplate === 'string') {
+        res.status(400).json({ success: false, error: itemTemplate });
+        return;
+      }
+
       const auction = await this.auctionService.createAuction({
         title,
         description: description || '',
         itemsPerRound: itemsPerRound || 10,
         totalRounds: totalRounds || 5,
         roundDurationMinutes: roundDurationMinutes || 2,
+        startAt: startDate,
+        createdBy: req.user?._id,
+        ...auctionType,
+        ...antiSnipe,
+        ...bidRules,
+        itemTemplate,
       });
 
       res.status(201).json({
@@ -224,6 +797,126 @@ export class AuctionController {
       next(error);
     }
   };
+
+  // Admins may manage any auction. The organizer who created an auction may
+  // manage it only while it is still PENDING.
+  private async loadManagedAuction(req: Request, auctionId: mongoose.Types.ObjectId): Promise<IAuction> {
+    const auction = await this.auctionService.getAuctionById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    if (isAdminRequest(req)) {
+      return auction;
+    }
+
+    const isOrganizer = !!req.user && !!auction.createdBy && auction.createdBy.equals(req.user._id);
+
+    if (!isOrganizer) {
+      throw new ForbiddenError('Only the organizer or an admin can manage this auction');
+    }
+
+    if (auction.status !== AuctionStatus.PENDING) {
+      throw new AuctionNotPendingError(auctionId.toString());
+    }
+
+    return auction;
+  }
+
+  updateAuction = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { title, description, itemsPerRound, totalRounds, roundDurationMinutes, startAt } = req.body || {};
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      const startDate = startAt ? new Date(startAt) : undefined;
+
+      if (startDate && isNaN(startDate.getTime())) {
+        res.status(400).json({ success: false, error: 'Invalid startAt date' });
+        return;
+      }
+
+      const auctionId = new mongoose.Types.ObjectId(id);
+      const existing = await this.loadManagedAuction(req, auctionId);
+
+      const bidRules = parseBidRules(
+        { reservePrice: req.body?.reservePrice },
+        typeof totalRounds === 'number' ? totalRounds : existing.totalRounds
+      );
+
+      if (typeof bidRules === 'string') {
+        res.status(400).json({ success: false, error: bidRules });
+        return;
+      }
+
+      const rawTemplate = req.body?.itemTemplate;
+      const itemTemplate =
+        rawTemplate === undefined || rawTemplate === null ? rawTemplate : parseItemTemplate(rawTemplate);
+
+      if (typeof itemTemplate === 'string') {
+        res.status(400).json({ success: false, error: itemTemplate });
+        return;
+      }
+
+      const auction = await this.auctionService.updatePendingAuction(auctionId, {
+        title: typeof title === 'string' ? title : undefined,
+        description: typeof description === 'string' ? description : undefined,
+        itemsPerRound: typeof itemsPerRound === 'number' ? itemsPerRound : undefined,
+        totalRounds: typeof totalRounds === 'number' ? totalRounds : undefined,
+        roundDurationMinutes: typeof roundDurationMinutes === 'number' ? roundDurationMinutes : undefined,
+        startAt: startDate,
+        reservePrices: bidRules.reservePrices,
+        itemTemplate,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: auction,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  cancelAuction = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body || {};
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      await this.loadManagedAuction(req, new mongoose.Types.ObjectId(id));
+
+      const result = await this.auctionService.cancelAuction(
+        new mongoose.Types.ObjectId(id),
+        typeof reason === 'string' ? reason : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          auction: result.auction,
+          bidsRefunded: result.bidsRefunded,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 }
 
 export const errorHandler = (
@@ -0,0 +1,334 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { IItem, ItemRarity } from '../models';
+import { ItemService, AuctionItemsStatus, UserItemsCursor, UserItemsFilter } from '../services/ItemService';
+import { UnauthorizedError } from '../utils/errors';
+
+const MAX_TRANSFER_MESSAGE_LENGTH = 280;
+
+const toItemResponse = (item: IItem) => ({
+  id: item._id,
+  auctionId: item.auctionId,
+  serialNumber: item.serialNumber,
+  ownerId: item.ownerId,
+  roundWon: item.roundWon,
+  wonAt: item.wonAt,
+  acquiredAt: item.acquiredAt,
+  name: item.metadata.name,
+  description: item.metadata.description || null,
+  rarity: item.metadata.rarity || null,
+  imageUrl: item.metadata.imageUrl ?? null,
+  attributes: item.metadata.attributes ?? {},
+  lockedFor: item.lockedFor,
+  transferCount: item.transferCount,
+});
+
+const parsePositiveInt = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : null;
+};
+
+// "<acquiredAt ms>_<itemId>" as returned in nextCursor of an inventory page
+const parseUserItemsCursor = (value: unknown): UserItemsCursor | null => {
+  const match = typeof value === 'string' ? /^(\d+)_([0-9a-f]{24})$/i.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+  const ms = parseInt(match[1], 10);
+  return {
+    acquiredAt: ms > 0 ? new Date(ms) : null,
+    id: new mongoose.Types.ObjectId(match[2]),
+  };
+};
+
+export class ItemController {
+  private itemService: ItemService;
+
+  constructor(itemService: ItemService) {
+    this.itemService = itemService;
+  }
+
+  transferItem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { toUserId, message } = req.body;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid item ID',
+        });
+        return;
+      }
+
+      if (typeof toUserId !== 'string' || !mongoose.Types.ObjectId.isValid(toUserId)) {
+        res.status(400).json({
+          success: false,
+          error: 'toUserId must be a valid user ID',
+        });
+        return;
+      }
+
+      if (message !== undefined && message !== null &&
+        (typeof message !== 'string' || message.length > MAX_TRANSFER_MESSAGE_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: `message must be a string of at most ${MAX_TRANSFER_MESSAGE_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const result = await this.itemService.transferItem(
+        new mongoose.Types.ObjectId(id),
+        req.user._id,
+        new mongoose.Types.ObjectId(toUserId),
+        message || null
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          transferId: result.transfer._id,
+          itemId: result.item._id,
+          fromUserId: result.transfer.fromUserId,
+          toUserId: result.transfer.toUserId,
+          message: result.transfer.message,
+          createdAt: result.transfer.createdAt,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Inventory is public; `me` stands for the authenticated user
+  getUserItems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      let { id } = req.params;
+      const { auctionId, rarity, roundWon, cursor, limit } = req.query;
+
+      if (id === 'me') {
+        if (!req.user) {
+          throw new UnauthorizedError();
+        }
+        id = req.user._id.toString();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid user ID',
+        });
+        return;
+      }
+
+      const filter: UserItemsFilter = {};
+
+      if (auctionId !== undefined) {
+        if (typeof auctionId !== 'string' || !mongoose.Types.ObjectId.isValid(auctionId)) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid auctionId',
+          });
+          return;
+        }
+        filter.auctionId = new mongoose.Types.ObjectId(auctionId);
+      }
+
+      if (rarity !== undefined) {
+        if (!Object.values(ItemRarity).includes(rarity as ItemRarity)) {
+          res.status(400).json({
+            success: false,
+            error: `rarity must be one of: ${Object.values(ItemRarity).join(', ')}`,
+          });
+          return;
+        }
+        filter.rarity = rarity as ItemRarity;
+      }
+
+      if (roundWon !== undefined) {
+        const round = parsePositiveInt(roundWon);
+        if (round === null) {
+          res.status(400).json({
+            success: false,
+            error: 'roundWon must be a positive integer',
+          });
+          return;
+        }
+        filter.roundWon = round;
+      }
+
+      let afterItem: UserItemsCursor | undefined;
+      if (cursor !== undefined) {
+        const parsed = parseUserItemsCursor(cursor);
+        if (parsed === null) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid cursor',
+          });
+          return;
+        }
+        afterItem = parsed;
+      }
+
+      const page = await this.itemService.getUserItems(new mongoose.Types.ObjectId(id), filter, {
+        limit: parseInt(limit as string, 10) || undefined,
+        cursor: afterItem,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          userId: id,
+          items: page.items.map(toItemResponse),
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getItem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid item ID',
+        });
+        return;
+      }
+
+      const detail = await this.itemService.getItemDetail(new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...toItemResponse(detail.item),
+          auctionTitle: detail.auctionTitle,
+          winningBid: detail.winningBid,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ?status=unsold lists the serial numbers still up for grabs
+  getAuctionItems = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { status = AuctionItemsStatus.ALL, cursor, limit } = req.query;
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      if (!Object.values(AuctionItemsStatus).includes(status as AuctionItemsStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of: ${Object.values(AuctionItemsStatus).join(', ')}`,
+        });
+        return;
+      }
+
+      let afterSerial: number | undefined;
+      if (cursor !== undefined) {
+        const parsed = parsePositiveInt(cursor);
+        if (parsed === null) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid cursor',
+          });
+          return;
+        }
+        afterSerial = parsed;
+      }
+
+      const page = await this.itemService.getAuctionItems(
+        new mongoose.Types.ObjectId(id),
+        status as AuctionItemsStatus,
+        { limit: parseInt(limit as string, 10) || undefined, cursor: afterSerial }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          auctionId: id,
+          total: page.total,
+          sold: page.sold,
+          unsold: page.total - page.sold,
+          items: page.items.map(item => ({
+            ...toItemResponse(item),
+            sold: item.ownerId !== null,
+          })),
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getAuctionFairness = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid auction ID',
+        });
+        return;
+      }
+
+      const report = await this.itemService.getFairnessReport(new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getItemHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid item ID',
+        });
+        return;
+      }
+
+      const provenance = await this.itemService.getProvenance(new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          itemId: id,
+          provenance,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,369 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { IListing, IOffer } from '../models';
+import { MarketplaceService, OfferRole, SaleResult } from '../services/MarketplaceService';
+import { UnauthorizedError } from '../utils/errors';
+
+const toListingResponse = (listing: IListing) => ({
+  id: listing._id,
+  itemId: listing.itemId,
+  auctionId: listing.auctionId,
+  sellerId: listing.sellerId,
+  price: listing.price,
+  status: listing.status,
+  buyerId: listing.buyerId,
+  sale: listing.sale,
+  soldAt: listing.soldAt,
+  cancelledAt: listing.cancelledAt,
+  createdAt: listing.createdAt,
+});
+
+const toOfferResponse = (offer: IOffer) => ({
+  id: offer._id,
+  itemId: offer.itemId,
+  buyerId: offer.buyerId,
+  amount: offer.amount,
+  status: offer.status,
+  sellerId: offer.sellerId,
+  sale: offer.sale,
+  resolvedAt: offer.resolvedAt,
+  createdAt: offer.createdAt,
+});
+
+const toSaleResponse = (result: SaleResult) => ({
+  itemId: result.item._id,
+  ownerId: result.item.ownerId,
+  transferId: result.transfer._id,
+  ...result.sale,
+});
+
+const isPositiveAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export class MarketplaceController {
+  private marketplaceService: MarketplaceService;
+
+  constructor(marketplaceService: MarketplaceService) {
+    this.marketplaceService = marketplaceService;
+  }
+
+  createListing = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { itemId, price } = req.body;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (typeof itemId !== 'string' || !mongoose.Types.ObjectId.isValid(itemId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid item ID',
+        });
+        return;
+      }
+
+      if (!isPositiveAmount(price)) {
+        res.status(400).json({
+          success: false,
+          error: 'price must be a positive number',
+        });
+        return;
+      }
+
+      const listing = await this.marketplaceService.createListing(
+        req.user._id,
+        new mongoose.Types.ObjectId(itemId),
+        price
+      );
+
+      res.status(201).json({
+        success: true,
+        data: toListingResponse(listing),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getListings = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { auctionId, sellerId, cursor, limit } = req.query;
+
+      for (const [name, value] of Object.entries({ auctionId, sellerId, cursor })) {
+        if (value !== undefined && (typeof value !== 'string' || !mongoose.Types.ObjectId.isValid(value))) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid ${name}`,
+          });
+          return;
+        }
+      }
+
+      const page = await this.marketplaceService.getListings(
+        {
+          auctionId: auctionId ? new mongoose.Types.ObjectId(auctionId as string) : undefined,
+          sellerId: sellerId ? new mongoose.Types.ObjectId(sellerId as string) : undefined,
+        },
+        {
+          limit: parseInt(limit as string, 10) || undefined,
+          cursor: cursor ? new mongoose.Types.ObjectId(cursor as string) : undefined,
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          listings: page.listings.map(toListingResponse),
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getListing = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid listing ID',
+        });
+        return;
+      }
+
+      const listing = await this.marketplaceService.getListing(new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: toListingResponse(listing),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  cancelListing = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid listing ID',
+        });
+        return;
+      }
+
+      const listing = await this.marketplaceService.cancelListing(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: toListingResponse(listing),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  buyListing = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid listing ID',
+        });
+        return;
+      }
+
+      const result = await this.marketplaceService.buyListing(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          listing: toListingResponse(result.listing),
+          sale: toSaleResponse(result),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  makeOffer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { itemId, amount } = req.body;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (typeof itemId !== 'string' || !mongoose.Types.ObjectId.isValid(itemId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid item ID',
+        });
+        return;
+      }
+
+      if (!isPositiveAmount(amount)) {
+        res.status(400).json({
+          success: false,
+          error: 'amount must be a positive number',
+        });
+        return;
+      }
+
+      const offer = await this.marketplaceService.makeOffer(
+        req.user._id,
+        new mongoose.Types.ObjectId(itemId),
+        amount
+      );
+
+      res.status(201).json({
+        success: true,
+        data: toOfferResponse(offer),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getOffers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { role = OfferRole.OUTGOING, cursor, limit } = req.query;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!Object.values(OfferRole).includes(role as OfferRole)) {
+        res.status(400).json({
+          success: false,
+          error: `role must be one of: ${Object.values(OfferRole).join(', ')}`,
+        });
+        return;
+      }
+
+      if (cursor !== undefined && (typeof cursor !== 'string' || !mongoose.Types.ObjectId.isValid(cursor))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid cursor',
+        });
+        return;
+      }
+
+      const page = await this.marketplaceService.getOffers(req.user._id, role as OfferRole, {
+        limit: parseInt(limit as string, 10) || undefined,
+        cursor: cursor ? new mongoose.Types.ObjectId(cursor as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          offers: page.offers.map(toOfferResponse),
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  acceptOffer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid offer ID',
+        });
+        return;
+      }
+
+      const result = await this.marketplaceService.acceptOffer(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          offer: toOfferResponse(result.offer),
+          sale: toSaleResponse(result),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rejectOffer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid offer ID',
+        });
+        return;
+      }
+
+      const offer = await this.marketplaceService.rejectOffer(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: toOfferResponse(offer),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  cancelOffer = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new UnauthorizedError();
+      }
+
+      if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid offer ID',
+        });
+        return;
+      }
+
+      const offer = await this.marketplaceService.cancelOffer(req.user._id, new mongoose.Types.ObjectId(id));
+
+      res.status(200).json({
+        success: true,
+        data: toOfferResponse(offer),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
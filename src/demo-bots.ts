@@ -33,8 +33,8 @@ async function placeBid(auctionId: string, userId: string, amount: number): Prom
   try {
     const response = await fetch(`${API_BASE}/api/auctions/${auctionId}/bid`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ userId, amount }),
+      headers: { 'Content-Type': 'application/json', 'X-Debug-User-Id': userId },
+      body: JSON.stringify({ amount }),
     });
     
     const data = await response.json() as { success: boolean; error?: string };
@@ -50,7 +50,10 @@ async function getActiveAuction(): Promise<AuctionInfo | null> {
     const data = await response.json() as { success: boolean; data?: any[] };
     
     if (data.success && data.data && data.data.length > 0) {
-      const auction = data.data[0];
+      const auction = data.data.find((a: any) => a.status === 'active');
+      if (!auction) {
+        return null;
+      }
       const activeRound = auction.rounds.find((r: any) => r.status === 'active');
       
       return {
@@ -45,8 +45,8 @@ async function placeBid(
   try {
     const response = await fetch(`${API_BASE}/api/auctions/${auctionId}/bid`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ userId, amount }),
+      headers: { 'Content-Type': 'application/json', 'X-Debug-User-Id': userId },
+      body: JSON.stringify({ amount }),
     });
     
     const data = await response.json() as BidResponse;
@@ -87,8 +87,9 @@ async function getActiveAuction(): Promise<{ id: string; currentRound: number; e
   const response = await fetch(`${API_BASE}/api/auctions`);
   const data = await response.json() as { success: boolean; data?: any[] };
   
-  if (data.success && data.data && data.data.length > 0) {
-    const auction = data.data[0];
+  const auction = data.success && data.data ? data.data.find((a: any) => a.status === 'active') : undefined;
+
+  if (auction) {
     const activeRound = auction.rounds.find((r: any) => r.status === 'active');
     
     return {
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { UnauthorizedError } from '../utils/errors';
+
+// Admin routes are guarded by a shared key passed in the X-Admin-Key header.
+// When ADMIN_API_KEY is not configured the routes are disabled entirely.
+export const isAdminRequest = (req: Request): boolean =>
+  !!config.adminApiKey && req.header('x-admin-key') === config.adminApiKey;
+
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!isAdminRequest(req)) {
+    next(new UnauthorizedError('Admin key required'));
+    return;
+  }
+
+  next();
+};
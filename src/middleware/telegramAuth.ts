@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { User, IUser } from '../models';
+import { config } from '../config';
+import { UnauthorizedError } from '../utils/errors';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: IUser;
+    }
+  }
+}
+
+export interface TelegramWebAppUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+// Validates Telegram WebApp initData as described in
+// https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+// Returns the embedded user on success, null if the signature or age check fails.
+export const validateInitData = (
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number
+): TelegramWebAppUser | null => {
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+
+  if (!hash) {
+    return null;
+  }
+
+  params.delete('hash');
+
+  const dataCheckString = Array.from(params.entries())
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+
+  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const expectedHash = crypto.createHmac('sha256', secretKey).update(dataCheckString).digest('hex');
+
+  const expected = Buffer.from(expectedHash, 'hex');
+  const received = Buffer.from(hash, 'hex');
+
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  const authDate = parseInt(params.get('auth_date') || '', 10);
+  if (isNaN(authDate) || Date.now() / 1000 - authDate > maxAgeSeconds) {
+    return null;
+  }
+
+  try {
+    const user = JSON.parse(params.get('user') || '') as TelegramWebAppUser;
+    return typeof user.id === 'number' ? user : null;
+  } catch {
+    return null;
+  }
+};
+
+const resolveTelegramUser = async (telegramUser: TelegramWebAppUser): Promise<IUser> => {
+  const user = await User.findOneAndUpdate(
+    { telegramId: telegramUser.id },
+    {
+      $set: { username: telegramUser.username },
+      $setOnInsert: { balance: 0, frozenFunds: 0 },
+    },
+    { new: true, upsert: true }
+  );
+
+  return user;
+};
+
+const resolveDebugUser = async (userId: string): Promise<IUser | null> => {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return null;
+  }
+
+  return User.findById(userId);
+};
+
+export interface AuthCredentials {
+  initData?: string;
+  debugUserId?: string;
+}
+
+// Shared by the HTTP middleware and the Socket.IO handshake
+export const resolveAuthenticatedUser = async (credentials: AuthCredentials): Promise<IUser> => {
+  if (credentials.initData) {
+    if (!config.telegramBotToken) {
+      throw new UnauthorizedError('Telegram authentication is not configured');
+    }
+
+    const telegramUser = validateInitData(
+      credentials.initData,
+      config.telegramBotToken,
+      config.telegramAuthMaxAgeSeconds
+    );
+
+    if (!telegramUser) {
+      throw new UnauthorizedError('Invalid Telegram initData');
+    }
+
+    return resolveTelegramUser(telegramUser);
+  }
+
+  if (config.allowDebugAuth && credentials.debugUserId) {
+    const user = await resolveDebugUser(credentials.debugUserId);
+
+    if (!user) {
+      throw new UnauthorizedError('Unknown debug user');
+    }
+
+    return user;
+  }
+
+  throw new UnauthorizedError('Authentication required');
+};
+
+// Expects `Authorization: tma <initData>`. With debug auth enabled,
+// `X-Debug-User-Id: <ObjectId>` is accepted as well.
+export const authenticate = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const [scheme, initData] = (req.header('authorization') || '').split(' ');
+
+    req.user = await resolveAuthenticatedUser({
+      initData: scheme === 'tma' ? initData : undefined,
+      debugUserId: req.header('x-debug-user-id'),
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Like `authenticate`, but anonymous requests pass through without `req.user`.
+// Credentials that are present must still be valid.
+export const optionalAuthenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.header('authorization') && !req.header('x-debug-user-id')) {
+    next();
+    return;
+  }
+
+  await authenticate(req, res, next);
+};
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ItemRarity } from './Item';
 
 export enum AuctionStatus {
   PENDING = 'pending',
@@ -7,6 +8,15 @@ export enum AuctionStatus {
   CANCELLED = 'cancelled',
 }
 
+export enum AuctionType {
+  // Open ascending bids; the top N of each round win, the rest carry over
+  MULTI_ROUND = 'multi_round',
+  // The price falls every tick and the first buyers take the round's items at the current price
+  DUTCH = 'dutch',
+  // Rounds like MULTI_ROUND, but bids stay hidden until the round closes
+  SEALED_BID = 'sealed_bid',
+}
+
 export enum RoundStatus {
   PENDING = 'pending',
   ACTIVE = 'active',
@@ -14,12 +24,127 @@ export enum RoundStatus {
   COMPLETED = 'completed',
 }
 
+// Steps of processRoundEnd. Each one is checkpointed on the round so a crashed
+// finalization resumes where it stopped instead of starting over.
+export enum FinalizationPhase {
+  // Freeze the ranking and snapshot the winners
+  SELECTING = 'selecting',
+  // Settle winning bids, in batches
+  WINNERS = 'winners',
+  // Carry over or refund the remaining bids, in batches
+  LOSERS = 'losers',
+  // Close the round and start the next one (or complete the auction)
+  ADVANCING = 'advancing',
+  DONE = 'done',
+}
+
+export enum AntiSnipeMode {
+  // Any bid inside the window extends the round
+  ANY_BID = 'any_bid',
+  // Only bids that change the set of current winners (top itemsInRound) extend it
+  WINNER_SET_CHANGE = 'winner_set_change',
+}
+
+export enum WithdrawalPolicy {
+  NEVER = 'never',
+  // Only bids carried over from an earlier round may be withdrawn
+  CARRIED_OVER_ONLY = 'carried_over_only',
+  // Any bid, except while the current round is inside its anti-snipe window
+  OUTSIDE_ANTI_SNIPE_WINDOW = 'outside_anti_snipe_window',
+}
+
+// What winners of a ranked round pay
+export enum PricingMode {
+  // Each winner pays their own bid
+  PAY_AS_BID = 'pay_as_bid',
+  // Uniform price: everyone pays the lowest winning bid
+  LOWEST_WINNING_BID = 'lowest_winning_bid',
+  // Uniform price: everyone pays the highest losing bid plus the minimum increment,
+  // capped at the lowest winning bid
+  HIGHEST_LOSING_BID = 'highest_losing_bid',
+}
+
+export enum IncrementType {
+  ABSOLUTE = 'absolute',
+  PERCENT = 'percent',
+}
+
+export interface IDutchSettings {
+  // Price at the start of every round
+  startPrice: number;
+  // The price never drops below this
+  floorPrice: number;
+  priceStep: number;
+  tickSeconds: number;
+}
+
+// How the auction's items are generated. Without one, the first 3 serials are
+// legendary, the first 30% epic and the rest rare.
+export interface IItemTemplate {
+  // Supports {title}, {serial} and {rarity}
+  namePattern: string;
+  // Falls back to the auction description
+  description: string | null;
+  imageUrl: string | null;
+  attributes: Record<string, string | number | boolean>;
+  // Relative weights per tier, turned into exact counts. Mutually exclusive with `rarities`.
+  rarityWeights: Partial<Record<ItemRarity, number>> | null;
+  // Explicit rarity per serial number, index 0 = serial 1
+  rarities: ItemRarity[] | null;
+  // Shuffle rarities across serials so they are not tied to round order
+  shuffle: boolean;
+  // Makes the shuffle reproducible; generated when shuffle is on and none is given
+  shuffleSeed: string | null;
+}
+
+// Commit-reveal for item assignment. The seed itself is kept in AuctionSeed
+// until the auction is over.
+export interface IFairness {
+  // sha256(seed) in hex, published at creation
+  seedHash: string;
+  // Revealed when the auction completes or is cancelled
+  seed: string | null;
+  revealedAt: Date | null;
+}
+
+export interface IMinIncrement {
+  type: IncrementType;
+  value: number;
+}
+
 export interface IRoundWinner {
   userId: mongoose.Types.ObjectId;
   bidId: mongoose.Types.ObjectId;
   amount: number;
+  // What was actually charged; below amount under uniform pricing
+  price: number;
   rank: number;
   wonAt: Date;
+  // Serial of the item the winner received; missing on older records
+  itemSerialNumber?: number | null;
+}
+
+export interface IFinalizationWinner {
+  userId: mongoose.Types.ObjectId;
+  amount: number;
+  price: number;
+  rank: number;
+}
+
+export interface IRoundFinalization {
+  phase: FinalizationPhase;
+  // Winners picked in SELECTING, settled in order by the WINNERS phase
+  winners: IFinalizationWinner[];
+  winnersProcessed: number;
+  losersCarriedOver: number;
+  losersRefunded: number;
+  // Number of times processRoundEnd picked this round up
+  attempts: number;
+  // Token of the lock holder allowed to write checkpoints (see LockService)
+  fencingToken: number;
+  startedAt: Date;
+  // Bumped on every checkpoint
+  updatedAt: Date;
 }
 
 export interface IRound {
@@ -30,6 +155,10 @@ export interface IRound {
   itemsInRound: number;
   winners: IRoundWinner[];
   extendedCount: number;
+  reservePrice: number;
+  // Uniform price every winner paid, null under pay-as-bid
+  clearingPrice: number | null;
+  finalization: IRoundFinalization | null;
 }
 
 export interface IAuction extends Document {
@@ -41,9 +170,25 @@ export interface IAuction extends Document {
   totalRounds: number;
   currentRound: number;
   status: AuctionStatus;
+  type: AuctionType;
+  dutch: IDutchSettings | null;
+  itemTemplate: IItemTemplate | null;
+  // Null on auctions created before commit-reveal; they assign serials in round order
+  fairness: IFairness | null;
   rounds: IRound[];
+  roundDurationMinutes: number;
+  startAt: Date | null;
+  createdBy: mongoose.Types.ObjectId | null;
   antiSnipeWindowSeconds: number;
   antiSnipeExtensionSeconds: number;
+  antiSnipeMaxExtensions: number | null;
+  antiSnipeHardCapSeconds: number | null;
+  antiSnipeMode: AntiSnipeMode;
+  minBid: number;
+  minIncrement: IMinIncrement;
+  pricingMode: PricingMode;
+  withdrawalPolicy: WithdrawalPolicy;
+  withdrawalPenaltyPercent: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,6 +210,11 @@ const roundWinnerSchema = new Schema<IRoundWinner>(
       required: true,
       min: 0,
     },
+    // Older records predate uniform pricing; there price equals amount
+    price: {
+      type: Number,
+      min: 0,
+    },
     rank: {
       type: Number,
       required: true,
@@ -75,6 +225,84 @@ const roundWinnerSchema = new Schema<IRoundWinner>(
       required: true,
       default: Date.now,
     },
+    itemSerialNumber: {
+      type: Number,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const finalizationWinnerSchema = new Schema<IFinalizationWinner>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    rank: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+  },
+  { _id: false }
+);
+
+const roundFinalizationSchema = new Schema<IRoundFinalization>(
+  {
+    phase: {
+      type: String,
+      enum: Object.values(FinalizationPhase),
+      default: FinalizationPhase.SELECTING,
+      required: true,
+    },
+    winners: {
+      type: [finalizationWinnerSchema],
+      default: [],
+    },
+    winnersProcessed: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    losersCarriedOver: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    losersRefunded: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    attempts: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
+    fencingToken: {
+      type: Number,
+      default: 0,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
   },
   { _id: false }
 );
@@ -114,6 +342,122 @@ const roundSchema = new Schema<IRound>(
       default: 0,
       min: 0,
     },
+    // Bids below this cannot win an item in the round
+    reservePrice: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    clearingPrice: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    // Progress of processRoundEnd, null until the round starts finalizing
+    finalization: {
+      type: roundFinalizationSchema,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const minIncrementSchema = new Schema<IMinIncrement>(
+  {
+    type: {
+      type: String,
+      enum: Object.values(IncrementType),
+      default: IncrementType.ABSOLUTE,
+    },
+    value: {
+      type: Number,
+      default: 1,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const itemTemplateSchema = new Schema<IItemTemplate>(
+  {
+    namePattern: {
+      type: String,
+      default: '{title} #{serial}',
+      maxlength: 200,
+    },
+    description: {
+      type: String,
+      default: null,
+      maxlength: 2000,
+    },
+    imageUrl: {
+      type: String,
+      default: null,
+    },
+    attributes: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    rarityWeights: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    rarities: {
+      type: [{ type: String, enum: Object.values(ItemRarity) }],
+      default: null,
+    },
+    shuffle: {
+      type: Boolean,
+      default: false,
+    },
+    shuffleSeed: {
+      type: String,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const fairnessSchema = new Schema<IFairness>(
+  {
+    seedHash: {
+      type: String,
+      required: true,
+    },
+    seed: {
+      type: String,
+      default: null,
+    },
+    revealedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const dutchSettingsSchema = new Schema<IDutchSettings>(
+  {
+    startPrice: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    floorPrice: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    priceStep: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    tickSeconds: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
   },
   { _id: false }
 );
@@ -158,10 +502,42 @@ const auctionSchema = new Schema<IAuction>(
       required: true,
       index: true,
     },
+    type: {
+      type: String,
+      enum: Object.values(AuctionType),
+      default: AuctionType.MULTI_ROUND,
+    },
+    // Price schedule, only for DUTCH auctions
+    dutch: {
+      type: dutchSettingsSchema,
+      default: null,
+    },
+    itemTemplate: {
+      type: itemTemplateSchema,
+      default: null,
+    },
+    fairness: {
+      type: fairnessSchema,
+      default: null,
+    },
     rounds: {
       type: [roundSchema],
       default: [],
     },
+    roundDurationMinutes: {
+      type: Number,
+      default: 2,
+      min: [0.1, 'Round duration is too short'],
+    },
+    startAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
     antiSnipeWindowSeconds: {
       type: Number,
       default: 30,
@@ -172,6 +548,49 @@ const auctionSchema = new Schema<IAuction>(
       default: 30,
       min: 0,
     },
+    // null = unlimited extensions per round
+    antiSnipeMaxExtensions: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    // Latest a round may end, in seconds past its scheduled end. null = no cap
+    antiSnipeHardCapSeconds: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    antiSnipeMode: {
+      type: String,
+      enum: Object.values(AntiSnipeMode),
+      default: AntiSnipeMode.ANY_BID,
+    },
+    minBid: {
+      type: Number,
+      default: 1,
+      min: [1, 'Minimum bid must be at least 1'],
+    },
+    minIncrement: {
+      type: minIncrementSchema,
+      default: () => ({ type: IncrementType.ABSOLUTE, value: 1 }),
+    },
+    pricingMode: {
+      type: String,
+      enum: Object.values(PricingMode),
+      default: PricingMode.PAY_AS_BID,
+    },
+    withdrawalPolicy: {
+      type: String,
+      enum: Object.values(WithdrawalPolicy),
+      default: WithdrawalPolicy.NEVER,
+    },
+    // Share of the bid kept (deducted) on withdrawal; the rest is refunded
+    withdrawalPenaltyPercent: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 100,
+    },
   },
   {
     timestamps: true,
@@ -182,6 +601,7 @@ const auctionSchema = new Schema<IAuction>(
 auctionSchema.index({ status: 1, 'rounds.status': 1 });
 auctionSchema.index({ 'rounds.endTime': 1 });
 auctionSchema.index({ createdAt: -1 });
+auctionSchema.index({ status: 1, startAt: 1 });
 
 auctionSchema.pre('validate', function (next) {
   if (this.isNew && this.totalItems && this.itemsPerRound) {
@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// Secret half of an auction's fairness commitment. Kept out of the auction
+// document so it never reaches clients before it is revealed.
+export interface IAuctionSeed extends Document {
+  _id: mongoose.Types.ObjectId;
+  auctionId: mongoose.Types.ObjectId;
+  seed: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const auctionSeedSchema = new Schema<IAuctionSeed>(
+  {
+    auctionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+      unique: true,
+    },
+    seed: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const AuctionSeed: Model<IAuctionSeed> = mongoose.model<IAuctionSeed>('AuctionSeed', auctionSeedSchema);
@@ -18,6 +18,8 @@ export interface IBid extends Document {
   roundNumber: number;
   originalRound: number;
   isCarriedOver: boolean;
+  // When the bid reached its current amount; breaks ties between equal amounts
+  lastRaisedAt: Date;
   wonAt?: Date;
   cancelledAt?: Date;
   refundedAt?: Date;
@@ -65,6 +67,10 @@ const bidSchema = new Schema<IBid>(
       type: Boolean,
       default: false,
     },
+    lastRaisedAt: {
+      type: Date,
+      default: Date.now,
+    },
     wonAt: {
       type: Date,
     },
@@ -3,17 +3,37 @@
 
 import mongoose, { Document, Schema } from 'mongoose';
 
+export enum ItemRarity {
+  COMMON = 'common',
+  UNCOMMON = 'uncommon',
+  RARE = 'rare',
+  EPIC = 'epic',
+  LEGENDARY = 'legendary',
+}
+
+// Why an item cannot change hands right now
+export enum ItemLockReason {
+  LISTED = 'listed',
+}
+
 export interface IItem extends Document {
   auctionId: mongoose.Types.ObjectId;
   ownerId: mongoose.Types.ObjectId | null;
   serialNumber: number;
   roundWon: number | null;
   wonAt: Date | null;
+  // When the current owner got the item: the auction win, a gift or a sale
+  acquiredAt: Date | null;
   bidId: mongoose.Types.ObjectId | null;
+  // Set while the item is on sale or held for a pending trade; transfers are refused
+  lockedFor: ItemLockReason | null;
+  transferCount: number;
   metadata: {
     name: string;
     description?: string;
-    rarity?: string;
+    rarity?: ItemRarity;
+    imageUrl?: string | null;
+    attributes?: Record<string, string | number | boolean>;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -31,7 +51,6 @@ const ItemSchema = new Schema<IItem>(
       type: Schema.Types.ObjectId,
       ref: 'User',
       default: null,
-      index: true,
     },
     serialNumber: {
       type: Number,
@@ -45,11 +64,24 @@ const ItemSchema = new Schema<IItem>(
       type: Date,
       default: null,
     },
+    acquiredAt: {
+      type: Date,
+      default: null,
+    },
     bidId: {
       type: Schema.Types.ObjectId,
       ref: 'Bid',
       default: null,
     },
+    lockedFor: {
+      type: String,
+      enum: [...Object.values(ItemLockReason), null],
+      default: null,
+    },
+    transferCount: {
+      type: Number,
+      default: 0,
+    },
     metadata: {
       name: {
         type: String,
@@ -61,8 +93,16 @@ const ItemSchema = new Schema<IItem>(
       },
       rarity: {
         type: String,
-        enum: ['common', 'uncommon', 'rare', 'epic', 'legendary'],
-        default: 'common',
+        enum: Object.values(ItemRarity),
+        default: ItemRarity.COMMON,
+      },
+      imageUrl: {
+        type: String,
+        default: null,
+      },
+      attributes: {
+        type: Schema.Types.Mixed,
+        default: {},
       },
     },
   },
@@ -74,5 +114,7 @@ const ItemSchema = new Schema<IItem>(
 // Compound index for efficient queries
 ItemSchema.index({ auctionId: 1, serialNumber: 1 }, { unique: true });
 ItemSchema.index({ auctionId: 1, ownerId: 1 });
+// Inventory pages: a user's items, most recently acquired first
+ItemSchema.index({ ownerId: 1, acquiredAt: -1, _id: -1 });
 
 export const Item = mongoose.model<IItem>('Item', ItemSchema);
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export enum ItemTransferType {
+  GIFT = 'gift',
+  // Marketplace purchase, fixed price or accepted offer
+  SALE = 'sale',
+}
+
+export interface IItemTransfer extends Document {
+  _id: mongoose.Types.ObjectId;
+  itemId: mongoose.Types.ObjectId;
+  fromUserId: mongoose.Types.ObjectId;
+  toUserId: mongoose.Types.ObjectId;
+  type: ItemTransferType;
+  message: string | null;
+  // What the buyer paid, sales only
+  price: number | null;
+  // Previous transfer of the same item, null for the first one after the auction.
+  // Following these links back gives the item's provenance.
+  previousTransferId: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const itemTransferSchema = new Schema<IItemTransfer>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: true,
+    },
+    fromUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    toUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(ItemTransferType),
+      required: true,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 280,
+      default: null,
+    },
+    price: {
+      type: Number,
+      default: null,
+    },
+    previousTransferId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ItemTransfer',
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+itemTransferSchema.index({ itemId: 1, _id: 1 });
+itemTransferSchema.index({ fromUserId: 1, _id: -1 });
+itemTransferSchema.index({ toUserId: 1, _id: -1 });
+
+// History is append-only, like the ledger
+const rejectMutation = function (next: (err?: Error) => void): void {
+  next(new Error('Item transfers are append-only and cannot be modified'));
+};
+
+itemTransferSchema.pre('updateOne', rejectMutation);
+itemTransferSchema.pre('updateMany', rejectMutation);
+itemTransferSchema.pre('findOneAndUpdate', rejectMutation);
+itemTransferSchema.pre('replaceOne', rejectMutation);
+
+export const ItemTransfer: Model<IItemTransfer> = mongoose.model<IItemTransfer>('ItemTransfer', itemTransferSchema);
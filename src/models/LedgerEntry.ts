@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export enum LedgerEntryType {
+  LOCK = 'lock',
+  DEDUCT = 'deduct',
+  REFUND = 'refund',
+  DEPOSIT = 'deposit',
+  ADJUSTMENT = 'adjustment',
+}
+
+export interface ILedgerEntry extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: LedgerEntryType;
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  frozenBefore: number;
+  frozenAfter: number;
+  auctionId?: mongoose.Types.ObjectId;
+  bidId?: mongoose.Types.ObjectId;
+  // Marketplace movements reference the item instead of a bid
+  itemId?: mongoose.Types.ObjectId;
+  reason?: string;
+  createdAt: Date;
+}
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(LedgerEntryType),
+      required: true,
+    },
+    // Signed for adjustments, always positive for the other types
+    amount: {
+      type: Number,
+      required: true,
+    },
+    balanceBefore: {
+      type: Number,
+      required: true,
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+    },
+    frozenBefore: {
+      type: Number,
+      required: true,
+    },
+    frozenAfter: {
+      type: Number,
+      required: true,
+    },
+    auctionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+    },
+    bidId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bid',
+    },
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+ledgerEntrySchema.index({ userId: 1, _id: -1 });
+ledgerEntrySchema.index({ bidId: 1 });
+ledgerEntrySchema.index({ auctionId: 1, type: 1 });
+
+// The ledger is append-only: entries are never rewritten after the fact,
+// corrections are recorded as new ADJUSTMENT entries instead.
+const rejectMutation = function (next: (err?: Error) => void): void {
+  next(new Error('Ledger entries are append-only and cannot be modified'));
+};
+
+ledgerEntrySchema.pre('updateOne', rejectMutation);
+ledgerEntrySchema.pre('updateMany', rejectMutation);
+ledgerEntrySchema.pre('findOneAndUpdate', rejectMutation);
+ledgerEntrySchema.pre('replaceOne', rejectMutation);
+
+export const LedgerEntry: Model<ILedgerEntry> = mongoose.model<ILedgerEntry>('LedgerEntry', ledgerEntrySchema);
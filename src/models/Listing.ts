@@ -0,0 +1,105 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export enum ListingStatus {
+  ACTIVE = 'active',
+  SOLD = 'sold',
+  CANCELLED = 'cancelled',
+}
+
+// How a sale's price was split; the fee stays with the platform
+export interface ISaleBreakdown {
+  price: number;
+  fee: number;
+  royalty: number;
+  royaltyRecipientId: mongoose.Types.ObjectId | null;
+  sellerProceeds: number;
+}
+
+export interface IListing extends Document {
+  _id: mongoose.Types.ObjectId;
+  itemId: mongoose.Types.ObjectId;
+  // Kept on the listing so the market can be browsed per auction
+  auctionId: mongoose.Types.ObjectId;
+  sellerId: mongoose.Types.ObjectId;
+  price: number;
+  status: ListingStatus;
+  buyerId: mongoose.Types.ObjectId | null;
+  sale: ISaleBreakdown | null;
+  soldAt: Date | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const saleBreakdownSchema = new Schema<ISaleBreakdown>(
+  {
+    price: { type: Number, required: true },
+    fee: { type: Number, required: true },
+    royalty: { type: Number, required: true },
+    royaltyRecipientId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    sellerProceeds: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const listingSchema = new Schema<IListing>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: true,
+    },
+    auctionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    price: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ListingStatus),
+      default: ListingStatus.ACTIVE,
+    },
+    buyerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    sale: {
+      type: saleBreakdownSchema,
+      default: null,
+    },
+    soldAt: {
+      type: Date,
+      default: null,
+    },
+    cancelledAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// At most one open listing per item
+listingSchema.index(
+  { itemId: 1 },
+  { unique: true, partialFilterExpression: { status: ListingStatus.ACTIVE } }
+);
+listingSchema.index({ status: 1, _id: -1 });
+listingSchema.index({ auctionId: 1, status: 1, _id: -1 });
+listingSchema.index({ sellerId: 1, _id: -1 });
+
+export const Listing: Model<IListing> = mongoose.model<IListing>('Listing', listingSchema);
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ISaleBreakdown, saleBreakdownSchema } from './Listing';
+
+export enum OfferStatus {
+  // Buyer's funds are locked for the amount
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected',
+  // Withdrawn by the buyer, or voided because the item was sold otherwise
+  CANCELLED = 'cancelled',
+}
+
+// An offer is made on the item, not to a person: whoever owns it when the
+// offer is answered can accept it.
+export interface IOffer extends Document {
+  _id: mongoose.Types.ObjectId;
+  itemId: mongoose.Types.ObjectId;
+  buyerId: mongoose.Types.ObjectId;
+  amount: number;
+  status: OfferStatus;
+  // Owner who accepted or rejected it
+  sellerId: mongoose.Types.ObjectId | null;
+  sale: ISaleBreakdown | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const offerSchema = new Schema<IOffer>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Item',
+      required: true,
+    },
+    buyerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    status: {
+      type: String,
+      enum: Object.values(OfferStatus),
+      default: OfferStatus.PENDING,
+    },
+    sellerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    sale: {
+      type: saleBreakdownSchema,
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// One pending offer per buyer per item; cancel it to offer a different amount
+offerSchema.index(
+  { itemId: 1, buyerId: 1 },
+  { unique: true, partialFilterExpression: { status: OfferStatus.PENDING } }
+);
+offerSchema.index({ itemId: 1, status: 1, amount: -1 });
+offerSchema.index({ buyerId: 1, _id: -1 });
+offerSchema.index({ sellerId: 1, _id: -1 });
+
+export const Offer: Model<IOffer> = mongoose.model<IOffer>('Offer', offerSchema);
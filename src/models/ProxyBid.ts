@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export enum ProxyBidStatus {
+  ACTIVE = 'active',
+  // Outbid above maxAmount, or a raise was rejected (e.g. insufficient funds)
+  EXHAUSTED = 'exhausted',
+  // The owner won an item while the proxy was running
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export interface IProxyBid extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  auctionId: mongoose.Types.ObjectId;
+  // Highest bid total the proxy may reach. Only the current bid is locked, not this.
+  maxAmount: number;
+  // Raises are rounded up to whole steps
+  step: number;
+  status: ProxyBidStatus;
+  // Last time the owner (re)started it; items won before this do not stop it
+  activatedAt: Date;
+  raisesCount: number;
+  lastRaisedAt: Date | null;
+  stoppedReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const proxyBidSchema = new Schema<IProxyBid>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    auctionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+    },
+    maxAmount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    step: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ProxyBidStatus),
+      default: ProxyBidStatus.ACTIVE,
+    },
+    activatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    raisesCount: {
+      type: Number,
+      default: 0,
+    },
+    lastRaisedAt: {
+      type: Date,
+      default: null,
+    },
+    stoppedReason: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// One proxy per user per auction; setting it again replaces the settings
+proxyBidSchema.index({ auctionId: 1, userId: 1 }, { unique: true });
+proxyBidSchema.index({ auctionId: 1, status: 1, createdAt: 1 });
+
+export const ProxyBid: Model<IProxyBid> = mongoose.model<IProxyBid>('ProxyBid', proxyBidSchema);
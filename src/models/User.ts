@@ -2,6 +2,8 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
 
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
+  telegramId?: number;
+  username?: string;
   balance: number;
   frozenFunds: number;
   createdAt: Date;
@@ -10,6 +12,16 @@ export interface IUser extends Document {
 
 const userSchema = new Schema<IUser>(
   {
+    telegramId: {
+      type: Number,
+      unique: true,
+      sparse: true,
+    },
+    username: {
+      type: String,
+      trim: true,
+      maxlength: 64,
+    },
     balance: {
       type: Number,
       required: true,
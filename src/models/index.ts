@@ -1,4 +1,29 @@
 export { User, IUser } from './User';
-export { Auction, IAuction, IRound, IRoundWinner, AuctionStatus, RoundStatus } from './Auction';
+export {
+  Auction,
+  IAuction,
+  IRound,
+  IRoundWinner,
+  IRoundFinalization,
+  IFinalizationWinner,
+  IMinIncrement,
+  IDutchSettings,
+  IItemTemplate,
+  IFairness,
+  AuctionStatus,
+  AuctionType,
+  RoundStatus,
+  FinalizationPhase,
+  AntiSnipeMode,
+  IncrementType,
+  PricingMode,
+  WithdrawalPolicy,
+} from './Auction';
+export { AuctionSeed, IAuctionSeed } from './AuctionSeed';
 export { Bid, IBid, BidStatus } from './Bid';
-export { Item, IItem } from './Item';
+export { ProxyBid, IProxyBid, ProxyBidStatus } from './ProxyBid';
+export { Item, IItem, ItemLockReason, ItemRarity } from './Item';
+export { ItemTransfer, IItemTransfer, ItemTransferType } from './ItemTransfer';
+export { Listing, IListing, ISaleBreakdown, ListingStatus } from './Listing';
+export { Offer, IOffer, OfferStatus } from './Offer';
+export { LedgerEntry, ILedgerEntry, LedgerEntryType } from './LedgerEntry';
@@ -0,0 +1,139 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { requireAdmin } from '../middleware/adminAuth';
+import { AuctionService } from '../services/AuctionService';
+import { ReconciliationService, ReconciliationMode } from '../services/ReconciliationService';
+import { config } from '../config';
+import { AuctionNotFoundError } from '../utils/errors';
+
+export const createAdminRoutes = (
+  auctionService: AuctionService,
+  reconciliationService: ReconciliationService
+): Router => {
+  const router = Router();
+
+  router.use(requireAdmin);
+
+  // Last report produced by the scheduled job or a manual run
+  router.get('/reconciliation', (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: reconciliationService.getLastReport(),
+    });
+  });
+
+  // Run now. Body: { "mode": "dry-run" | "apply" }, defaults to dry-run
+  router.post('/reconciliation', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { mode = ReconciliationMode.DRY_RUN } = req.body || {};
+
+      if (!Object.values(ReconciliationMode).includes(mode)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid mode. Expected one of: ${Object.values(ReconciliationMode).join(', ')}`,
+        });
+        return;
+      }
+
+      const report = await reconciliationService.reconcile(mode);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rebuild Redis leaderboards of every active auction from Mongo
+  router.post('/leaderboards/rebuild', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await auctionService.rehydrateActiveLeaderboards();
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/auctions/:id/leaderboard/rebuild', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const roundParam = parseInt(req.query.round as string, 10);
+
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ success: false, error: 'Invalid auction ID' });
+        return;
+      }
+
+      const auctionId = new mongoose.Types.ObjectId(id);
+      const auction = await auctionService.getAuctionById(auctionId);
+
+      if (!auction) {
+        throw new AuctionNotFoundError(id);
+      }
+
+      const roundNumber = isNaN(roundParam) ? auction.currentRound : roundParam;
+      const bids = await auctionService.rebuildLeaderboard(auctionId, roundNumber);
+
+      res.json({
+        success: true,
+        data: { auctionId: id, roundNumber, bids },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rounds stuck in FINALIZING. ?olderThanSeconds= overrides the scheduler timeout
+  router.get('/rounds/stuck', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const olderThanParam = parseInt(req.query.olderThanSeconds as string, 10);
+      const olderThanSeconds = isNaN(olderThanParam)
+        ? config.finalizationStuckTimeoutSeconds
+        : Math.max(0, olderThanParam);
+
+      const rounds = await auctionService.findStuckRounds(olderThanSeconds);
+
+      res.json({
+        success: true,
+        data: { olderThanSeconds, rounds },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Resume a FINALIZING round now instead of waiting for the scheduler
+  router.post('/auctions/:id/rounds/:round/finalize', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const roundNumber = parseInt(req.params.round, 10);
+
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ success: false, error: 'Invalid auction ID' });
+        return;
+      }
+
+      if (isNaN(roundNumber) || roundNumber < 1) {
+        res.status(400).json({ success: false, error: 'Invalid round number' });
+        return;
+      }
+
+      const result = await auctionService.forceFinalizeRound(new mongoose.Types.ObjectId(id), roundNumber);
+
+      res.json({
+        success: true,
+        data: { auctionId: id, roundNumber, ...result },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
@@ -1,19 +1,39 @@
 import { Router } from 'express';
 import { AuctionController } from '../controllers/AuctionController';
+import { ItemController } from '../controllers/ItemController';
+import { authenticate, optionalAuthenticate } from '../middleware/telegramAuth';
 
-export const createAuctionRoutes = (auctionController: AuctionController): Router => {
+export const createAuctionRoutes = (auctionController: AuctionController, itemController: ItemController): Router => {
   const router = Router();
 
   router.get('/', auctionController.getActiveAuctions);
 
-  router.post('/', auctionController.createAuction);
+  router.post('/', optionalAuthenticate, auctionController.createAuction);
 
-  router.post('/:id/bid', auctionController.placeBid);
+  router.post('/:id/bid', authenticate, auctionController.placeBid);
+
+  router.delete('/:id/bid', authenticate, auctionController.withdrawBid);
+
+  router.get('/:id/proxy', authenticate, auctionController.getProxyBid);
+
+  router.put('/:id/proxy', authenticate, auctionController.setProxyBid);
+
+  router.delete('/:id/proxy', authenticate, auctionController.cancelProxyBid);
+
+  router.patch('/:id', optionalAuthenticate, auctionController.updateAuction);
+
+  router.post('/:id/cancel', optionalAuthenticate, auctionController.cancelAuction);
 
   router.get('/:id', auctionController.getAuction);
 
+  router.get('/:id/items', itemController.getAuctionItems);
+
+  router.get('/:id/fairness', itemController.getAuctionFairness);
+
   router.get('/:id/leaderboard', auctionController.getLeaderboard);
 
+  router.get('/:id/bid-requirements', optionalAuthenticate, auctionController.getBidRequirements);
+
   router.get('/:id/user/:userId/rank', auctionController.getUserRank);
 
   return router;
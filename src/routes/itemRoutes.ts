@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { ItemController } from '../controllers/ItemController';
+import { authenticate } from '../middleware/telegramAuth';
+
+export const createItemRoutes = (itemController: ItemController): Router => {
+  const router = Router();
+
+  router.post('/:id/transfer', authenticate, itemController.transferItem);
+
+  router.get('/:id', itemController.getItem);
+
+  router.get('/:id/history', itemController.getItemHistory);
+
+  return router;
+};
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { MarketplaceController } from '../controllers/MarketplaceController';
+import { authenticate } from '../middleware/telegramAuth';
+
+export const createMarketRoutes = (marketplaceController: MarketplaceController): Router => {
+  const router = Router();
+
+  router.get('/listings', marketplaceController.getListings);
+
+  router.post('/listings', authenticate, marketplaceController.createListing);
+
+  router.get('/listings/:id', marketplaceController.getListing);
+
+  router.delete('/listings/:id', authenticate, marketplaceController.cancelListing);
+
+  router.post('/listings/:id/buy', authenticate, marketplaceController.buyListing);
+
+  router.get('/offers', authenticate, marketplaceController.getOffers);
+
+  router.post('/offers', authenticate, marketplaceController.makeOffer);
+
+  router.post('/offers/:id/accept', authenticate, marketplaceController.acceptOffer);
+
+  router.post('/offers/:id/reject', authenticate, marketplaceController.rejectOffer);
+
+  router.delete('/offers/:id', authenticate, marketplaceController.cancelOffer);
+
+  return router;
+};
@@ -1,11 +1,51 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { User } from '../models';
+import { WalletService } from '../services/WalletService';
+import { ItemController } from '../controllers/ItemController';
+import { authenticate, optionalAuthenticate } from '../middleware/telegramAuth';
 
-export const createUserRoutes = (): Router => {
+// Wallet data is private: `:id` must be the authenticated user, or the literal `me`
+const requireSelf = (req: Request, res: Response, next: NextFunction): void => {
+  const ownId = req.user!._id.toString();
+
+  if (req.params.id === 'me') {
+    req.params.id = ownId;
+  }
+
+  if (req.params.id !== ownId) {
+    res.status(403).json({
+      success: false,
+      error: 'Access to another user\'s wallet is not allowed',
+    });
+    return;
+  }
+
+  next();
+};
+
+export const createUserRoutes = (walletService: WalletService, itemController: ItemController): Router => {
   const router = Router();
 
+  // Get the authenticated user's profile
+  router.get('/me', authenticate, (req: Request, res: Response) => {
+    const user = req.user!;
+
+    res.json({
+      success: true,
+      data: {
+        userId: user._id,
+        telegramId: user.telegramId ?? null,
+        username: user.username ?? null,
+        balance: user.balance,
+        frozenFunds: user.frozenFunds,
+        availableBalance: user.balance - user.frozenFunds,
+      },
+    });
+  });
+
   // Get user balance
-  router.get('/:id/balance', async (req: Request, res: Response) => {
+  router.get('/:id/balance', authenticate, requireSelf, async (req: Request, res: Response) => {
     try {
       const user = await User.findById(req.params.id);
       
@@ -33,15 +73,83 @@ export const createUserRoutes = (): Router => {
     }
   });
 
+  // Get ledger history, newest first, paginated by ?cursor=<lastEntryId>&limit=
+  router.get('/:id/transactions', authenticate, requireSelf, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const cursor = req.query.cursor as string | undefined;
+      const limit = parseInt(req.query.limit as string, 10) || 50;
+
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid user ID',
+        });
+      }
+
+      if (cursor && !mongoose.Types.ObjectId.isValid(cursor)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid cursor',
+        });
+      }
+
+      const user = await User.findById(id).select('_id');
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      const page = await walletService.getTransactions(user._id, {
+        limit,
+        cursor: cursor ? new mongoose.Types.ObjectId(cursor) : undefined,
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          userId: user._id,
+          transactions: page.entries.map(e => ({
+            id: e._id,
+            type: e.type,
+            amount: e.amount,
+            balanceBefore: e.balanceBefore,
+            balanceAfter: e.balanceAfter,
+            frozenBefore: e.frozenBefore,
+            frozenAfter: e.frozenAfter,
+            auctionId: e.auctionId || null,
+            bidId: e.bidId || null,
+            itemId: e.itemId || null,
+            reason: e.reason || null,
+            createdAt: e.createdAt,
+          })),
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get transactions',
+      });
+    }
+  });
+
+  // Items the user currently owns; public, unlike the wallet
+  router.get('/:id/items', optionalAuthenticate, itemController.getUserItems);
+
   // Get all users (for testing/demo)
   router.get('/', async (_req: Request, res: Response) => {
     try {
-      const users = await User.find({}).select('_id balance frozenFunds').limit(20);
+      const users = await User.find({}).select('_id username balance frozenFunds').limit(20);
       
       return res.json({
         success: true,
         data: users.map(u => ({
           userId: u._id,
+          username: u.username ?? null,
           balance: u.balance,
           frozenFunds: u.frozenFunds,
           availableBalance: u.balance - u.frozenFunds,
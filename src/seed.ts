@@ -3,7 +3,20 @@
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database';
-import { User, Auction, Bid, Item, AuctionStatus, RoundStatus } from './models';
+import {
+    User,
+    Auction,
+    AuctionSeed,
+    Bid,
+    Item,
+    LedgerEntry,
+    LedgerEntryType,
+    AuctionStatus,
+    RoundStatus,
+    ItemRarity,
+} from './models';
+import { buildItemsData, generateShuffleSeed } from './utils/itemTemplate';
+import { generateFairnessSeed, hashSeed } from './utils/fairness';
 
 dotenv.config();
 
@@ -16,8 +29,10 @@ const seedDatabase = async () => {
         console.log('Очистка коллекций...');
         await User.deleteMany({});
         await Auction.deleteMany({});
+        await AuctionSeed.deleteMany({});
         await Bid.deleteMany({});
         await Item.deleteMany({});
+        await LedgerEntry.deleteMany({});
         console.log('Коллекции очищены.');
 
         // 2. Создание пользователей
@@ -30,6 +45,16 @@ const seedDatabase = async () => {
             { balance: 500, frozenFunds: 0 },
         ];
         const users = await User.insertMany(usersData);
+        await LedgerEntry.insertMany(users.map(u => ({
+            userId: u._id,
+            type: LedgerEntryType.DEPOSIT,
+            amount: u.balance,
+            balanceBefore: 0,
+            balanceAfter: u.balance,
+            frozenBefore: 0,
+            frozenAfter: 0,
+            reason: 'Seed balance',
+        })));
         console.log(`${users.length} пользователей создано.`);
         console.table(users.map(u => ({ id: u._id.toString(), balance: u.balance })));
 
@@ -54,6 +79,7 @@ const seedDatabase = async () => {
             });
         }
         
+        const fairnessSeed = generateFairnessSeed();
         const auction = await Auction.create({
             title: 'Rare Digital Collectible',
             description: 'An exclusive limited edition digital collectible NFT',
@@ -63,32 +89,29 @@ const seedDatabase = async () => {
             totalRounds: totalRounds,
             currentRound: 1,
             rounds: rounds,
+            itemTemplate: {
+                namePattern: '{title} #{serial} ({rarity})',
+                rarityWeights: {
+                    [ItemRarity.LEGENDARY]: 1,
+                    [ItemRarity.EPIC]: 4,
+                    [ItemRarity.RARE]: 10,
+                    [ItemRarity.UNCOMMON]: 15,
+                    [ItemRarity.COMMON]: 20,
+                },
+                shuffle: true,
+                shuffleSeed: generateShuffleSeed(),
+            },
+            fairness: { seedHash: hashSeed(fairnessSeed), seed: null, revealedAt: null },
         });
+        await AuctionSeed.create({ auctionId: auction._id, seed: fairnessSeed });
         console.log('Аукцион создан.');
 
         // 4. Создание предметов для аукциона
         console.log('Создание предметов аукциона...');
-        const totalItems = itemsPerRound * totalRounds;
-        const itemsData = [];
-        
-        for (let i = 0; i < totalItems; i++) {
-            itemsData.push({
-                auctionId: auction._id,
-                serialNumber: i + 1,
-                ownerId: null,
-                roundWon: null,
-                wonAt: null,
-                bidId: null,
-                metadata: {
-                    name: `${auction.title} #${i + 1}`,
-                    description: auction.description,
-                    rarity: i < 3 ? 'legendary' : i < 8 ? 'epic' : 'rare',
-                },
-            });
-        }
-        
+        const itemsData = buildItemsData(auction);
+
         await Item.insertMany(itemsData);
-        console.log(`${totalItems} предметов создано для аукциона.`);
+        console.log(`${itemsData.length} предметов создано для аукциона.`);
 
         console.log('\n✅ Сидинг успешно завершен!');
         console.log('Аукцион активен. Первый раунд закончится через 2 минуты.');
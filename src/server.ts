@@ -1,15 +1,34 @@
 import 'dotenv/config';
 import express, { Application, Request, Response } from 'express';
 import http from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import mongoose from 'mongoose';
 import path from 'path';
 import cors from 'cors';
 import helmet from 'helmet';
 import { connectDB, createRedisClient, disconnectAll, config } from './config';
-import { WalletService, AuctionService, SchedulerService } from './services';
+import {
+  WalletService,
+  AuctionService,
+  SchedulerService,
+  ReconciliationService,
+  LockService,
+  TimerService,
+  ProxyBidService,
+  IdempotencyService,
+  ItemService,
+  MarketplaceService,
+} from './services';
 import { AuctionController, errorHandler } from './controllers/AuctionController';
+import { ItemController } from './controllers/ItemController';
+import { MarketplaceController } from './controllers/MarketplaceController';
 import { createAuctionRoutes } from './routes/auctionRoutes';
 import { createUserRoutes } from './routes/userRoutes';
+import { createItemRoutes } from './routes/itemRoutes';
+import { createMarketRoutes } from './routes/marketRoutes';
+import { createAdminRoutes } from './routes/adminRoutes';
+import { resolveAuthenticatedUser, AuthCredentials } from './middleware/telegramAuth';
+import { auctionRoom, userRoom } from './utils/rooms';
 import type { Redis } from 'ioredis';
 
 const app: Application = express();
@@ -23,6 +42,7 @@ const io = new SocketIOServer(httpServer, {
 
 let redis: Redis;
 let scheduler: SchedulerService;
+let lockService: LockService;
 
 app.use(helmet({
   contentSecurityPolicy: false,
@@ -37,18 +57,37 @@ app.get('/health', (_req: Request, res: Response) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    instanceId: config.instanceId,
+    // Round finalization locks held by this instance and acquisition counters
+    locks: lockService ? lockService.getMetrics() : null,
   });
 });
 
-const setupServices = (): { auctionService: AuctionService } => {
+const setupServices = (): {
+  auctionService: AuctionService;
+  reconciliationService: ReconciliationService;
+  timerService: TimerService;
+  proxyBidService: ProxyBidService;
+} => {
   const walletService = new WalletService();
-  const auctionService = new AuctionService(walletService, redis, io);
-  const auctionController = new AuctionController(auctionService);
-
-  app.use('/api/auctions', createAuctionRoutes(auctionController));
-  app.use('/api/users', createUserRoutes());
-
-  return { auctionService };
+  lockService = new LockService(redis);
+  const timerService = new TimerService(redis);
+  const auctionService = new AuctionService(walletService, redis, io, lockService, timerService);
+  const reconciliationService = new ReconciliationService(walletService);
+  const proxyBidService = new ProxyBidService(auctionService, redis, io, lockService);
+  const idempotencyService = new IdempotencyService(redis);
+  const auctionController = new AuctionController(auctionService, proxyBidService, idempotencyService);
+  const itemService = new ItemService(walletService, io);
+  const itemController = new ItemController(itemService);
+  const marketplaceController = new MarketplaceController(new MarketplaceService(walletService, itemService, io));
+
+  app.use('/api/auctions', createAuctionRoutes(auctionController, itemController));
+  app.use('/api/users', createUserRoutes(walletService, itemController));
+  app.use('/api/items', createItemRoutes(itemController));
+  app.use('/api/market', createMarketRoutes(marketplaceController));
+  app.use('/api/admin', createAdminRoutes(auctionService, reconciliationService));
+
+  return { auctionService, reconciliationService, timerService, proxyBidService };
 };
 
 const startServer = async (): Promise<void> => {
@@ -60,13 +99,63 @@ const startServer = async (): Promise<void> => {
     await redis.ping();
     console.log('✅ Redis ping successful');
 
-    const { auctionService } = setupServices();
+    const { auctionService, reconciliationService, timerService, proxyBidService } = setupServices();
+
+    const rehydrated = await auctionService.rehydrateActiveLeaderboards();
+    console.log(
+      `✅ Leaderboards rehydrated: ${rehydrated.bids} bids across ${rehydrated.auctions} auctions`
+    );
 
-    scheduler = new SchedulerService(auctionService, io);
+    scheduler = new SchedulerService(auctionService, io, reconciliationService, timerService, proxyBidService);
     scheduler.start();
 
-    io.on('connection', (socket: { id: string; on: (event: string, callback: () => void) => void }) => {
+    io.on('connection', (socket: Socket) => {
       console.log(`🔌 Client connected: ${socket.id}`);
+
+      // Personal events (outbid, won item) go to the user's own room. Credentials
+      // come from the handshake or a later `authenticate` event, same as HTTP auth.
+      const identify = async (credentials: AuthCredentials): Promise<string | null> => {
+        try {
+          const user = await resolveAuthenticatedUser(credentials);
+          const room = userRoom(user._id.toString());
+
+          for (const joined of socket.rooms) {
+            if (joined.startsWith('user:') && joined !== room) {
+              socket.leave(joined);
+            }
+          }
+          socket.join(room);
+
+          return user._id.toString();
+        } catch {
+          return null;
+        }
+      };
+
+      const handshakeAuth = socket.handshake.auth as AuthCredentials;
+      if (handshakeAuth && (handshakeAuth.initData || handshakeAuth.debugUserId)) {
+        identify(handshakeAuth);
+      }
+
+      socket.on('authenticate', async (credentials: AuthCredentials, ack?: (res: { userId: string | null }) => void) => {
+        const userId = await identify(credentials || {});
+        if (typeof ack === 'function') {
+          ack({ userId });
+        }
+      });
+
+      socket.on('joinAuction', (auctionId: unknown) => {
+        if (typeof auctionId === 'string' && mongoose.Types.ObjectId.isValid(auctionId)) {
+          socket.join(auctionRoom(auctionId));
+        }
+      });
+
+      socket.on('leaveAuction', (auctionId: unknown) => {
+        if (typeof auctionId === 'string') {
+          socket.leave(auctionRoom(auctionId));
+        }
+      });
+
       socket.on('disconnect', () => {
         console.log(`🔌 Client disconnected: ${socket.id}`);
       });
@@ -1,15 +1,60 @@
 import mongoose from 'mongoose';
 import type { Redis } from 'ioredis';
 import type { Server as SocketIOServer } from 'socket.io';
-import { Auction, IAuction, Bid, IBid, BidStatus, AuctionStatus, RoundStatus, IRound, Item } from '../models';
+import {
+  Auction,
+  IAuction,
+  Bid,
+  IBid,
+  BidStatus,
+  AuctionStatus,
+  RoundStatus,
+  IRound,
+  IRoundWinner,
+  FinalizationPhase,
+  AuctionType,
+  Item,
+  AntiSnipeMode,
+  IncrementType,
+  IMinIncrement,
+  IDutchSettings,
+  PricingMode,
+  WithdrawalPolicy,
+  IItemTemplate,
+  AuctionSeed,
+} from '../models';
 import { WalletService } from './WalletService';
 import { config } from '../config';
 import {
   AuctionNotFoundError,
   AuctionNotActiveError,
   RoundNotActiveError,
+  RoundNotFinalizingError,
+  RoundFinalizingError,
   InvalidBidAmountError,
+  AuctionNotCancellableError,
+  AuctionNotPendingError,
+  InvalidAuctionScheduleError,
+  InvalidItemTemplateError,
+  BidBelowMinimumError,
+  BelowReservePriceError,
+  BidIncrementTooSmallError,
+  RaiseBelowWinningZoneError,
+  NoActiveBidError,
+  WithdrawalNotAllowedError,
+  DuplicateBidError,
+  PriceAboveLimitError,
+  RoundSoldOutError,
+  BidsHiddenError,
 } from '../utils/errors';
+import { auctionRoom, userRoom } from '../utils/rooms';
+import { getMinRaise } from '../utils/increments';
+import { buildItemsData, generateShuffleSeed } from '../utils/itemTemplate';
+import { generateFairnessSeed, hashSeed, drawKey, drawSerials, freeSerials } from '../utils/fairness';
+import { LeaderboardService, LeaderboardEntry } from './LeaderboardService';
+import { LockService, Lock } from './LockService';
+import { TimerService } from './TimerService';
+import { SettlementStrategy, createSettlementStrategies } from './SettlementStrategy';
 
 export interface PlaceBidResult {
   bid: IBid;
@@ -18,19 +63,407 @@ export interface PlaceBidResult {
   newEndTime?: Date;
 }
 
+// A bid written inside placeBid's transaction. afterCommit holds the Redis and
+// socket work that must only run once the transaction is committed.
+interface StagedBid {
+  bid: IBid;
+  roundExtended: boolean;
+  newEndTime?: Date;
+  afterCommit: () => Promise<void>;
+}
+
+export interface BidRequirements {
+  auctionId: string;
+  auctionType: AuctionType;
+  roundNumber: number;
+  itemsInRound: number;
+  minBid: number;
+  reservePrice: number;
+  minIncrement: IMinIncrement;
+  // The user's current bid total, 0 without a bid
+  currentAmount: number;
+  currentRank: number | null;
+  isWinning: boolean;
+  // Amount of the Nth (last winning) place, null while fewer than N bidders
+  lastWinningAmount: number | null;
+  // Smallest accepted raise for an existing bid, null without a bid
+  minRaise: number | null;
+  // Total bid needed to be in the winning zone right now
+  minTotalToWin: number;
+  // What to send as `amount` to placeBid to get there
+  minAmountToWin: number;
+  // Dutch auctions only: price right now and when it drops next
+  currentPrice: number | null;
+  nextPriceAt: Date | null;
+}
+
+export interface RoundEndResult {
+  winnersCount: number;
+  losersCarriedOver: number;
+  losersRefunded: number;
+}
+
+export interface StuckRound {
+  auctionId: string;
+  title: string;
+  roundNumber: number;
+  phase: FinalizationPhase | null;
+  attempts: number;
+  startedAt: Date | null;
+  // Last checkpoint write
+  lastProgressAt: Date | null;
+  stuckForSeconds: number;
+}
+
+export interface WithdrawBidResult {
+  bid: IBid;
+  refunded: number;
+  penalty: number;
+}
+
 export class AuctionService {
   private walletService: WalletService;
-  private redis: Redis;
+  private leaderboard: LeaderboardService;
+  private locks: LockService;
+  private timers?: TimerService;
+  private settlements: Record<AuctionType, SettlementStrategy>;
   private io?: SocketIOServer;
 
-  constructor(walletService: WalletService, redis: Redis, io?: SocketIOServer) {
+  constructor(
+    walletService: WalletService,
+    redis: Redis,
+    io?: SocketIOServer,
+    locks?: LockService,
+    timers?: TimerService
+  ) {
     this.walletService = walletService;
-    this.redis = redis;
+    this.leaderboard = new LeaderboardService(redis);
+    this.locks = locks || new LockService(redis);
+    this.timers = timers;
+    this.settlements = createSettlementStrategies(this.leaderboard);
     this.io = io;
   }
 
-  private getRedisLeaderboardKey(auctionId: string, roundNumber: number): string {
-    return `auction:${auctionId}:round:${roundNumber}`;
+  private getSettlement(auction: IAuction): SettlementStrategy {
+    return this.settlements[auction.type] || this.settlements[AuctionType.MULTI_ROUND];
+  }
+
+  // Dutch price of a round at `at`: startPrice minus one priceStep per elapsed tick, down to floorPrice
+  private getDutchPrice(auction: IAuction, round: IRound, at: Date = new Date()): { price: number; nextPriceAt: Date | null } {
+    const { startPrice, floorPrice, priceStep, tickSeconds } = auction.dutch!;
+    const tickMs = tickSeconds * 1000;
+    const ticks = Math.max(0, Math.floor((at.getTime() - round.startTime.getTime()) / tickMs));
+    const price = Math.max(floorPrice, startPrice - ticks * priceStep);
+
+    return {
+      price,
+      nextPriceAt: price > floorPrice ? new Date(round.startTime.getTime() + (ticks + 1) * tickMs) : null,
+    };
+  }
+
+  // Timers are an optimisation over the scheduler's safety-net poll, so a failed
+  // write is logged rather than failing the operation that triggered it
+  private async armRoundEnd(auctionId: mongoose.Types.ObjectId, roundNumber: number, endTime: Date): Promise<void> {
+    if (!this.timers) {
+      return;
+    }
+
+    try {
+      await this.timers.scheduleRoundEnd(auctionId.toString(), roundNumber, endTime);
+    } catch (error) {
+      console.error(`Failed to arm timer for round ${roundNumber} of auction ${auctionId}:`, error);
+    }
+  }
+
+  private async armAuctionStart(auctionId: mongoose.Types.ObjectId, startAt: Date): Promise<void> {
+    if (!this.timers) {
+      return;
+    }
+
+    try {
+      await this.timers.scheduleAuctionStart(auctionId.toString(), startAt);
+    } catch (error) {
+      console.error(`Failed to arm start timer for auction ${auctionId}:`, error);
+    }
+  }
+
+  private async disarmTimers(auction: IAuction): Promise<void> {
+    if (!this.timers) {
+      return;
+    }
+
+    const auctionId = auction._id.toString();
+
+    try {
+      await this.timers.cancel({ type: 'auction-start', auctionId });
+      for (const round of auction.rounds) {
+        await this.timers.cancel({ type: 'round-end', auctionId, roundNumber: round.roundNumber });
+      }
+    } catch (error) {
+      console.error(`Failed to cancel timers of auction ${auctionId}:`, error);
+    }
+  }
+
+  // Writes the user's score and returns the user pushed out of the winning
+  // zone (top itemsInRound) by this update, if any.
+  private async updateLeaderboard(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number,
+    userId: mongoose.Types.ObjectId,
+    amount: number,
+    reachedAt: Date,
+    itemsInRound: number
+  ): Promise<string | null> {
+    const id = auctionId.toString();
+    const member = userId.toString();
+
+    const previous = await this.leaderboard.getEntry(id, roundNumber, member);
+    await this.leaderboard.upsert(id, roundNumber, member, amount, reachedAt);
+    const current = await this.leaderboard.getEntry(id, roundNumber, member);
+
+    const enteredWinningZone =
+      current !== null && current.rank <= itemsInRound &&
+      (previous === null || previous.rank > itemsInRound);
+
+    if (!enteredWinningZone) {
+      return null;
+    }
+
+    const displaced = await this.leaderboard.entryAtRank(id, roundNumber, itemsInRound + 1);
+    return displaced && displaced.userId !== member ? displaced.userId : null;
+  }
+
+  // Lays out rounds fromRound..totalRounds back-to-back starting at startTime
+  private rescheduleRoundsFrom(
+    auction: IAuction,
+    fromRound: number,
+    startTime: Date
+  ): { roundNumber: number; startTime: Date; endTime: Date }[] {
+    const durationMs = auction.roundDurationMinutes * 60 * 1000;
+
+    return auction.rounds
+      .filter(r => r.roundNumber >= fromRound)
+      .sort((a, b) => a.roundNumber - b.roundNumber)
+      .map((r, i) => {
+        const roundStart = new Date(startTime.getTime() + i * durationMs);
+        return {
+          roundNumber: r.roundNumber,
+          startTime: roundStart,
+          endTime: new Date(roundStart.getTime() + durationMs),
+        };
+      });
+  }
+
+  private getMinRaise(auction: IAuction, currentAmount: number): number {
+    return getMinRaise(auction.minIncrement, currentAmount);
+  }
+
+  private async computeBidRequirements(
+    auction: IAuction,
+    round: IRound,
+    userId: mongoose.Types.ObjectId | null,
+    currentAmount: number
+  ): Promise<BidRequirements> {
+    const id = auction._id.toString();
+    const itemsInRound = round.itemsInRound;
+    const base = {
+      auctionId: id,
+      auctionType: auction.type,
+      roundNumber: round.roundNumber,
+      itemsInRound,
+      minBid: auction.minBid,
+      reservePrice: round.reservePrice,
+      minIncrement: { type: auction.minIncrement.type, value: auction.minIncrement.value },
+    };
+
+    if (auction.type === AuctionType.DUTCH) {
+      const { price, nextPriceAt } = this.getDutchPrice(auction, round);
+
+      return {
+        ...base,
+        currentAmount: 0,
+        currentRank: null,
+        isWinning: false,
+        lastWinningAmount: null,
+        minRaise: null,
+        minTotalToWin: price,
+        minAmountToWin: price,
+        currentPrice: price,
+        nextPriceAt,
+      };
+    }
+
+    // Sealed rounds do not tell anyone where they stand
+    const revealsBids = this.getSettlement(auction).revealsBids;
+
+    const entry = userId && revealsBids
+      ? await this.leaderboard.getEntry(id, round.roundNumber, userId.toString())
+      : null;
+    const lastWinner = revealsBids ? await this.leaderboard.entryAtRank(id, round.roundNumber, itemsInRound) : null;
+    const lastWinningAmount = lastWinner ? lastWinner.amount : null;
+
+    const rank = entry ? entry.rank : null;
+    const isWinning = rank !== null && rank <= itemsInRound;
+    const minRaise = currentAmount > 0 ? this.getMinRaise(auction, currentAmount) : null;
+
+    const floorTotal = Math.max(auction.minBid, round.reservePrice);
+    // Ties do not displace an existing winner, so outsiders need strictly more
+    const zoneTotal = !isWinning && lastWinningAmount !== null ? lastWinningAmount + 1 : 0;
+    const raiseTotal = minRaise !== null ? currentAmount + minRaise : 0;
+
+    const minTotalToWin = isWinning
+      ? currentAmount
+      : Math.max(floorTotal, zoneTotal, raiseTotal);
+
+    return {
+      ...base,
+      currentAmount,
+      currentRank: rank,
+      isWinning,
+      lastWinningAmount,
+      minRaise,
+      minTotalToWin,
+      minAmountToWin: Math.max(0, minTotalToWin - currentAmount),
+      currentPrice: null,
+      nextPriceAt: null,
+    };
+  }
+
+  private assertBidMeetsRequirements(requirements: BidRequirements, amount: number): void {
+    const { currentAmount, minRaise, isWinning, lastWinningAmount } = requirements;
+    const newTotal = currentAmount + amount;
+
+    if (currentAmount === 0 && newTotal < requirements.minBid) {
+      throw new BidBelowMinimumError(requirements.minBid);
+    }
+
+    if (newTotal < requirements.reservePrice) {
+      throw new BelowReservePriceError(requirements.roundNumber, requirements.reservePrice);
+    }
+
+    if (minRaise !== null && amount < minRaise) {
+      throw new BidIncrementTooSmallError(minRaise);
+    }
+
+    // A raise from outside the winning zone only counts if it beats the current Nth place
+    if (currentAmount > 0 && !isWinning && lastWinningAmount !== null && newTotal <= lastWinningAmount) {
+      throw new RaiseBelowWinningZoneError(lastWinningAmount + 1);
+    }
+  }
+
+  async getBidRequirements(
+    auctionId: mongoose.Types.ObjectId,
+    userId?: mongoose.Types.ObjectId
+  ): Promise<BidRequirements> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    if (auction.status !== AuctionStatus.ACTIVE) {
+      throw new AuctionNotActiveError(auctionId.toString());
+    }
+
+    const activeRound = this.findActiveRound(auction);
+
+    if (!activeRound) {
+      throw new RoundNotActiveError(auctionId.toString(), auction.currentRound);
+    }
+
+    const existingBid = userId
+      ? await Bid.findOne({
+          userId,
+          auctionId,
+          status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+        })
+      : null;
+
+    return this.computeBidRequirements(auction, activeRound, userId || null, existingBid ? existingBid.amount : 0);
+  }
+
+  // Returns the new round end time if this bid should extend the round, null otherwise.
+  // Honors the auction's window/extension settings, the per-round extension cap,
+  // the hard end cap, and (in WINNER_SET_CHANGE mode) whether the bid actually
+  // moves the bidder into the winning zone.
+  private async computeAntiSnipeExtension(
+    auction: IAuction,
+    round: IRound,
+    userId: mongoose.Types.ObjectId,
+    newAmount: number
+  ): Promise<Date | null> {
+    const now = new Date();
+    const timeUntilEnd = round.endTime.getTime() - now.getTime();
+    const antiSnipeWindow = auction.antiSnipeWindowSeconds * 1000;
+
+    if (timeUntilEnd <= 0 || timeUntilEnd > antiSnipeWindow || auction.antiSnipeExtensionSeconds <= 0) {
+      return null;
+    }
+
+    // An extension would tell everyone a late bid came in
+    if (!this.getSettlement(auction).revealsBids) {
+      return null;
+    }
+
+    if (auction.antiSnipeMaxExtensions !== null && round.extendedCount >= auction.antiSnipeMaxExtensions) {
+      return null;
+    }
+
+    let newEndTime = new Date(round.endTime.getTime() + auction.antiSnipeExtensionSeconds * 1000);
+
+    if (auction.antiSnipeHardCapSeconds !== null) {
+      // A round's startTime is fixed once it is active, so its scheduled end is start + duration
+      const scheduledEnd = round.startTime.getTime() + auction.roundDurationMinutes * 60 * 1000;
+      const hardEnd = scheduledEnd + auction.antiSnipeHardCapSeconds * 1000;
+
+      if (newEndTime.getTime() > hardEnd) {
+        newEndTime = new Date(hardEnd);
+      }
+      if (newEndTime <= round.endTime) {
+        return null;
+      }
+    }
+
+    if (auction.antiSnipeMode === AntiSnipeMode.WINNER_SET_CHANGE) {
+      const changesWinners = await this.wouldEnterWinningZone(
+        auction._id,
+        round.roundNumber,
+        userId,
+        newAmount,
+        round.itemsInRound
+      );
+
+      if (!changesWinners) {
+        return null;
+      }
+    }
+
+    return newEndTime;
+  }
+
+  // Read-only check against the current leaderboard, before this bid is written to it
+  private async wouldEnterWinningZone(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number,
+    userId: mongoose.Types.ObjectId,
+    amount: number,
+    itemsInRound: number
+  ): Promise<boolean> {
+    const id = auctionId.toString();
+
+    const current = await this.leaderboard.getEntry(id, roundNumber, userId.toString());
+    if (current !== null && current.rank <= itemsInRound) {
+      return false;
+    }
+
+    // The bidder reaches the amount now, i.e. after the current last winner,
+    // so an equal amount does not displace them
+    const lastWinner = await this.leaderboard.entryAtRank(id, roundNumber, itemsInRound);
+    if (!lastWinner) {
+      return true;
+    }
+
+    return amount > lastWinner.amount;
   }
 
   private findActiveRound(auction: IAuction): IRound | null {
@@ -46,18 +479,1111 @@ export class AuctionService {
       }
     }
 
-    return null;
+    return null;
+  }
+
+  // Dutch purchase, staged inside placeBid's transaction. `limit` is the most the
+  // buyer agreed to pay; they are charged the current price, which can only be lower.
+  // One item per buyer per round; the round closes as soon as it sells out.
+  private async buyAtCurrentPrice(
+    auction: IAuction,
+    round: IRound,
+    userId: mongoose.Types.ObjectId,
+    limit: number,
+    session: mongoose.ClientSession
+  ): Promise<StagedBid> {
+    const auctionId = auction._id;
+    const { roundNumber, itemsInRound } = round;
+    const now = new Date();
+    const { price } = this.getDutchPrice(auction, round, now);
+
+    if (limit < price) {
+      throw new PriceAboveLimitError(price, limit);
+    }
+
+    const alreadyBought = await Bid.exists({
+      userId,
+      auctionId,
+      roundNumber,
+      status: BidStatus.WON,
+    }).session(session);
+
+    if (alreadyBought) {
+      throw new DuplicateBidError(`Only one item per buyer in round ${roundNumber}`);
+    }
+
+    if (round.winners.length >= itemsInRound) {
+      throw new RoundSoldOutError(roundNumber);
+    }
+
+    const rank = round.winners.length + 1;
+    const soldOut = rank === itemsInRound;
+    const itemSerialNumber = await this.drawDutchSerial(auction, round, userId, rank, session);
+    const bidId = new mongoose.Types.ObjectId();
+    const ref = { auctionId, bidId, reason: `Dutch purchase in round ${roundNumber}` };
+
+    // Conditional on the same slot still being free; a concurrent buyer in the
+    // same transaction window makes one of the two fail with a write conflict
+    const reserved = await Auction.updateOne(
+      {
+        _id: auctionId,
+        rounds: {
+          $elemMatch: {
+            roundNumber,
+            status: RoundStatus.ACTIVE,
+            [`winners.${rank - 1}`]: { $exists: false },
+          },
+        },
+      },
+      {
+        $push: { 'rounds.$.winners': { userId, bidId, amount: price, price, rank, wonAt: now, itemSerialNumber } },
+        ...(soldOut && { $set: { 'rounds.$.endTime': now } }),
+      },
+      { session }
+    );
+
+    if (reserved.modifiedCount !== 1) {
+      throw new RoundSoldOutError(roundNumber);
+    }
+
+    await this.walletService.lockFunds(userId, price, session, ref);
+    await this.walletService.deductFunds(userId, price, session, ref);
+
+    const bid = new Bid({
+      _id: bidId,
+      userId,
+      auctionId,
+      amount: price,
+      status: BidStatus.WON,
+      roundNumber,
+      originalRound: roundNumber,
+      isCarriedOver: false,
+      lastRaisedAt: now,
+      wonAt: now,
+    });
+    await bid.save({ session });
+
+    await Item.findOneAndUpdate(
+      { auctionId, serialNumber: itemSerialNumber },
+      {
+        $set: {
+          ownerId: userId,
+          roundWon: roundNumber,
+          wonAt: now,
+          acquiredAt: now,
+          bidId,
+        },
+      },
+      { upsert: true, new: true, session }
+    );
+
+    const afterCommit = async (): Promise<void> => {
+      if (soldOut) {
+        await this.armRoundEnd(auctionId, roundNumber, now);
+      }
+
+      if (this.io) {
+        const itemWon = {
+          auctionId: auctionId.toString(),
+          roundNumber,
+          userId: userId.toString(),
+          itemSerialNumber,
+          amount: price,
+          price,
+          rank,
+        };
+
+        this.io.to(auctionRoom(auctionId.toString())).emit('itemWon', itemWon);
+        this.io.to(userRoom(userId.toString())).emit('wonItem', itemWon);
+      }
+    };
+
+    return { bid, roundExtended: false, afterCommit };
+  }
+
+  async placeBid(
+    userId: mongoose.Types.ObjectId,
+    auctionId: mongoose.Types.ObjectId,
+    amount: number
+  ): Promise<PlaceBidResult> {
+    if (amount <= 0) {
+      throw new InvalidBidAmountError('Bid amount must be positive');
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    let auction: IAuction;
+    let staged: StagedBid;
+
+    try {
+      const found = await Auction.findById(auctionId).session(session);
+
+      if (!found) {
+        throw new AuctionNotFoundError(auctionId.toString());
+      }
+
+      auction = found;
+
+      if (auction.status !== AuctionStatus.ACTIVE) {
+        throw new AuctionNotActiveError(auctionId.toString());
+      }
+
+      const activeRound = this.findActiveRound(auction);
+
+      if (!activeRound) {
+        throw new RoundNotActiveError(auctionId.toString(), auction.currentRound);
+      }
+
+      staged = auction.type === AuctionType.DUTCH
+        ? await this.buyAtCurrentPrice(auction, activeRound, userId, amount, session)
+        : await this.stageBid(auction, activeRound, userId, amount, session);
+
+      await session.commitTransaction(); // Commit critical DB changes
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    // The bid is committed from here on, so nothing below may fail the request:
+    // a caller would treat it as not applied and retry it.
+    // Theoretically, if node crashing here, Redis might be stale.
+    // But critical data (money/bids) is safe in Mongo.
+    try {
+      await staged.afterCommit();
+    } catch (error) {
+      console.error(`Post-commit updates failed for bid ${staged.bid._id}:`, error);
+    }
+
+    let updatedAuction: IAuction | null = null;
+    try {
+      updatedAuction = await Auction.findById(auctionId);
+    } catch (error) {
+      console.error(`Failed to reload auction ${auctionId} after bid:`, error);
+    }
+
+    return {
+      bid: staged.bid,
+      auction: updatedAuction || auction,
+      roundExtended: staged.roundExtended,
+      newEndTime: staged.newEndTime,
+    };
+  }
+
+  // Regular bid or raise, staged inside placeBid's transaction
+  private async stageBid(
+    auction: IAuction,
+    activeRound: IRound,
+    userId: mongoose.Types.ObjectId,
+    amount: number,
+    session: mongoose.ClientSession
+  ): Promise<StagedBid> {
+    const auctionId = auction._id;
+
+    const existingBid = await Bid.findOne({
+      userId,
+      auctionId,
+      status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+    }).session(session);
+
+    const currentAmount = existingBid ? existingBid.amount : 0;
+    const requirements = await this.computeBidRequirements(auction, activeRound, userId, currentAmount);
+    this.assertBidMeetsRequirements(requirements, amount);
+
+    let bid: IBid;
+    let roundExtended = false;
+    let newEndTime: Date | undefined;
+    let finalBidAmount = 0;
+
+    if (existingBid) {
+      // Bid increment
+      if (amount <= 0) {
+        throw new InvalidBidAmountError('Additional amount must be greater than 0');
+      }
+
+      // Lock additional amount
+      await this.walletService.lockFunds(userId, amount, session, {
+        auctionId,
+        bidId: existingBid._id,
+        reason: 'Bid increase',
+      });
+
+      // Update existing bid
+      existingBid.amount += amount;
+      existingBid.updatedAt = new Date();
+      existingBid.lastRaisedAt = existingBid.updatedAt;
+      await existingBid.save({ session });
+
+      bid = existingBid;
+      finalBidAmount = existingBid.amount;
+    } else {
+      // New bid. The id is allocated up front so the ledger entry can reference it.
+      const bidId = new mongoose.Types.ObjectId();
+      await this.walletService.lockFunds(userId, amount, session, {
+        auctionId,
+        bidId,
+        reason: 'New bid',
+      });
+
+      bid = new Bid({
+        _id: bidId,
+        userId,
+        auctionId,
+        amount,
+        status: BidStatus.ACTIVE,
+        roundNumber: activeRound.roundNumber,
+        originalRound: activeRound.roundNumber,
+        isCarriedOver: false,
+        lastRaisedAt: new Date(),
+      });
+
+      await bid.save({ session });
+      finalBidAmount = amount;
+    }
+
+    const extendedEndTime = await this.computeAntiSnipeExtension(
+      auction,
+      activeRound,
+      userId,
+      finalBidAmount
+    );
+
+    if (extendedEndTime) {
+      newEndTime = extendedEndTime;
+
+      await Auction.updateOne(
+        {
+          _id: auctionId,
+          'rounds.roundNumber': activeRound.roundNumber
+        },
+        {
+          $set: { 'rounds.$.endTime': newEndTime },
+          $inc: { 'rounds.$.extendedCount': 1 },
+        },
+        { session }
+      );
+
+      roundExtended = true;
+    }
+
+    const afterCommit = async (): Promise<void> => {
+      let outbidUserId: string | null = null;
+
+      try {
+        outbidUserId = await this.updateLeaderboard(
+          auctionId,
+          activeRound.roundNumber,
+          userId,
+          finalBidAmount,
+          bid.lastRaisedAt,
+          activeRound.itemsInRound
+        );
+      } catch (redisError) {
+        console.error('Failed to update Redis leaderboard:', redisError);
+      }
+
+      if (roundExtended && newEndTime) {
+        await this.armRoundEnd(auctionId, activeRound.roundNumber, newEndTime);
+      }
+
+      if (this.io) {
+        const room = this.io.to(auctionRoom(auctionId.toString()));
+        const revealsBids = this.getSettlement(auction).revealsBids;
+
+        // Sealed rounds only announce that a bid happened
+        room.emit('newBid', {
+          auctionId: auctionId.toString(),
+          userId: revealsBids ? userId.toString() : null,
+          amount: revealsBids ? finalBidAmount : null,
+          roundNumber: activeRound.roundNumber,
+        });
+
+        if (roundExtended && newEndTime) {
+          room.emit('roundExtended', {
+            auctionId: auctionId.toString(),
+            roundNumber: activeRound.roundNumber,
+            newEndTime: newEndTime.toISOString(),
+          });
+        }
+
+        if (outbidUserId && revealsBids) {
+          this.io.to(userRoom(outbidUserId)).emit('outbid', {
+            auctionId: auctionId.toString(),
+            roundNumber: activeRound.roundNumber,
+            byUserId: userId.toString(),
+            amount: finalBidAmount,
+          });
+        }
+      }
+    };
+
+    return { bid, roundExtended, newEndTime, afterCommit };
+  }
+
+  // Sealed rounds keep their bids hidden until they close
+  private async assertBidsVisible(auctionId: mongoose.Types.ObjectId, roundNumber: number): Promise<IAuction> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    const round = auction.rounds.find(r => r.roundNumber === roundNumber);
+
+    if (round && round.status !== RoundStatus.COMPLETED && !this.getSettlement(auction).revealsBids) {
+      throw new BidsHiddenError(roundNumber);
+    }
+
+    return auction;
+  }
+
+  async getLeaderboard(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number,
+    limit: number = 100
+  ): Promise<LeaderboardEntry[]> {
+    const auction = await this.assertBidsVisible(auctionId, roundNumber);
+    const round = auction.rounds.find(r => r.roundNumber === roundNumber);
+
+    // A closed round's set is cleared on finalization; its result is the recorded winners
+    if (round && round.status === RoundStatus.COMPLETED) {
+      const winners = limit > 0 ? round.winners.slice(0, limit) : round.winners;
+      const bids = await Bid.find({ _id: { $in: winners.map(w => w.bidId) } }).select('lastRaisedAt createdAt');
+      const reachedAt = new Map(bids.map(bid => [bid._id.toString(), (bid.lastRaisedAt || bid.createdAt).getTime()]));
+
+      return winners.map(w => ({
+        userId: w.userId.toString(),
+        amount: w.amount,
+        reachedAt: reachedAt.get(w.bidId.toString()) ?? w.wonAt.getTime(),
+        rank: w.rank,
+      }));
+    }
+
+    return this.leaderboard.top(auctionId.toString(), roundNumber, limit);
+  }
+
+  async getUserRank(
+    userId: mongoose.Types.ObjectId,
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number
+  ): Promise<{ rank: number | null; amount: number | null; reachedAt: number | null }> {
+    await this.assertBidsVisible(auctionId, roundNumber);
+
+    const entry = await this.leaderboard.getEntry(auctionId.toString(), roundNumber, userId.toString());
+
+    return {
+      rank: entry ? entry.rank : null,
+      amount: entry ? entry.amount : null,
+      reachedAt: entry ? entry.reachedAt : null,
+    };
+  }
+
+  // Rebuilds the round ZSET from open Bid documents. Mongo is the durable copy of
+  // the ranking; Redis can lose it on restart or eviction.
+  async rebuildLeaderboard(auctionId: mongoose.Types.ObjectId, roundNumber: number): Promise<number> {
+    const bids = await Bid.find({
+      auctionId,
+      roundNumber,
+      status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+    }).select('userId amount lastRaisedAt createdAt');
+
+    // Replaced in one MULTI so readers never observe a half-built set
+    await this.leaderboard.replace(
+      auctionId.toString(),
+      roundNumber,
+      bids.map(bid => ({
+        userId: bid.userId.toString(),
+        amount: bid.amount,
+        reachedAt: (bid.lastRaisedAt || bid.createdAt).getTime(),
+      }))
+    );
+
+    return bids.length;
+  }
+
+  // Cheap check before anything that trusts the ZSET: compares cardinality with
+  // Mongo's count and rebuilds only on mismatch.
+  async ensureLeaderboardConsistent(auctionId: mongoose.Types.ObjectId, roundNumber: number): Promise<boolean> {
+    const [redisCount, mongoCount] = await Promise.all([
+      this.leaderboard.count(auctionId.toString(), roundNumber),
+      Bid.countDocuments({
+        auctionId,
+        roundNumber,
+        status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+      }),
+    ]);
+
+    if (redisCount === mongoCount) {
+      return false;
+    }
+
+    console.warn(
+      `⚠️ Leaderboard drift for auction ${auctionId} round ${roundNumber}: ` +
+      `redis=${redisCount}, mongo=${mongoCount}. Rebuilding...`
+    );
+    await this.rebuildLeaderboard(auctionId, roundNumber);
+    return true;
+  }
+
+  async rehydrateActiveLeaderboards(): Promise<{ auctions: number; bids: number }> {
+    const auctions = await Auction.find({ status: AuctionStatus.ACTIVE });
+    let bids = 0;
+
+    for (const auction of auctions) {
+      for (const round of auction.rounds) {
+        if (round.status === RoundStatus.ACTIVE || round.status === RoundStatus.FINALIZING) {
+          bids += await this.rebuildLeaderboard(auction._id, round.roundNumber);
+        }
+      }
+    }
+
+    return { auctions: auctions.length, bids };
+  }
+
+  // Writes a finalization checkpoint, but only if the round is still FINALIZING,
+  // matches `expected` and is still owned by `fencingToken`. Two finalizers racing
+  // on the same round therefore cannot both apply the same step, and a holder
+  // whose lock expired cannot write at all; the loser sees false.
+  private async checkpoint(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number,
+    fencingToken: number,
+    expected: Record<string, unknown>,
+    changes: {
+      set?: Record<string, unknown>;
+      inc?: Record<string, number>;
+      push?: Record<string, unknown>;
+    },
+    session?: mongoose.ClientSession
+  ): Promise<boolean> {
+    const onRound = <T>(fields: Record<string, T>): Record<string, T> =>
+      Object.fromEntries(Object.entries(fields).map(([key, value]) => [`rounds.$.${key}`, value]));
+
+    const update: mongoose.UpdateQuery<IAuction> = {
+      $set: onRound({ ...changes.set, 'finalization.updatedAt': new Date() }),
+    };
+    if (changes.inc) {
+      update.$inc = onRound(changes.inc);
+    }
+    if (changes.push) {
+      update.$push = onRound(changes.push);
+    }
+
+    const result = await Auction.updateOne(
+      {
+        _id: auctionId,
+        rounds: {
+          $elemMatch: {
+            roundNumber,
+            status: RoundStatus.FINALIZING,
+            'finalization.fencingToken': fencingToken,
+            ...expected,
+          },
+        },
+      },
+      update,
+      { session }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  private getRound(auction: IAuction, roundNumber: number): IRound {
+    const round = auction.rounds.find(r => r.roundNumber === roundNumber);
+
+    if (!round) {
+      throw new RoundNotActiveError(auction._id.toString(), roundNumber);
+    }
+
+    return round;
+  }
+
+  // Moves an ACTIVE round to FINALIZING with a fresh checkpoint, or takes over
+  // one that is already FINALIZING. Either way the checkpoint is stamped with our
+  // fencingToken. Returns null when there is nothing to do (already completed,
+  // or someone with a newer token got there first).
+  private async startFinalization(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number,
+    fencingToken: number
+  ): Promise<IAuction | null> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    const round = this.getRound(auction, roundNumber);
+    const now = new Date();
+    const freshCheckpoint = {
+      phase: FinalizationPhase.SELECTING,
+      winners: [],
+      winnersProcessed: 0,
+      losersCarriedOver: 0,
+      losersRefunded: 0,
+      attempts: 1,
+      fencingToken,
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    if (round.status === RoundStatus.ACTIVE) {
+      return Auction.findOneAndUpdate(
+        { _id: auctionId, rounds: { $elemMatch: { roundNumber, status: RoundStatus.ACTIVE } } },
+        {
+          $set: {
+            'rounds.$.status': RoundStatus.FINALIZING,
+            'rounds.$.finalization': freshCheckpoint,
+          },
+        },
+        { new: true }
+      );
+    }
+
+    if (round.status === RoundStatus.FINALIZING) {
+      console.log(
+        `↩️ Resuming finalization of round ${roundNumber} for auction ${auctionId} ` +
+        `(phase: ${round.finalization?.phase ?? 'none'})`
+      );
+
+      const update = round.finalization
+        ? {
+          $inc: { 'rounds.$.finalization.attempts': 1 },
+          $set: { 'rounds.$.finalization.fencingToken': fencingToken, 'rounds.$.finalization.updatedAt': now },
+        }
+        : { $set: { 'rounds.$.finalization': freshCheckpoint } };
+
+      return Auction.findOneAndUpdate(
+        {
+          _id: auctionId,
+          rounds: {
+            $elemMatch: {
+              roundNumber,
+              status: RoundStatus.FINALIZING,
+              $or: [{ finalization: null }, { 'finalization.fencingToken': { $lt: fencingToken } }],
+            },
+          },
+        },
+        update,
+        { new: true }
+      );
+    }
+
+    console.log(`Round ${roundNumber} is not active (status: ${round.status}), skipping`);
+    return null;
+  }
+
+  // SELECTING: the round no longer accepts bids, so the ranking is final.
+  // Winners are snapshotted on the checkpoint so retries settle the same set.
+  private async selectWinners(auction: IAuction, round: IRound, fencingToken: number): Promise<void> {
+    const auctionId = auction._id;
+
+    // Winners are picked from Redis, so make sure it still matches Mongo first
+    await this.ensureLeaderboardConsistent(auctionId, round.roundNumber);
+
+    const { winners, clearingPrice } = await this.getSettlement(auction).selectWinners(auction, round);
+
+    await this.checkpoint(
+      auctionId,
+      round.roundNumber,
+      fencingToken,
+      { 'finalization.phase': FinalizationPhase.SELECTING },
+      {
+        set: {
+          clearingPrice,
+          'finalization.winners': winners,
+          'finalization.phase': winners.length > 0 ? FinalizationPhase.WINNERS : FinalizationPhase.LOSERS,
+        },
+      }
+    );
+  }
+
+  // WINNERS: settles the next batch of snapshotted winners in one transaction
+  private async settleWinnersBatch(auction: IAuction, round: IRound, fencingToken: number): Promise<void> {
+    const auctionId = auction._id;
+    const { roundNumber, itemsInRound } = round;
+    const finalization = round.finalization!;
+    const from = finalization.winnersProcessed;
+    const batch = finalization.winners.slice(from, from + config.finalizationBatchSize);
+    const processed = from + batch.length;
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const serials = await this.drawRoundSerials(auction, round, session);
+      const settled: IRoundWinner[] = [];
+
+      for (const [i, winner] of batch.entries()) {
+        const bid = await Bid.findOneAndUpdate(
+          {
+            userId: winner.userId,
+            auctionId,
+            status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+          },
+          {
+            $set: {
+              status: BidStatus.WON,
+              wonAt: new Date(),
+            },
+          },
+          { new: true, session }
+        );
+
+        if (!bid) {
+          continue;
+        }
+
+        await this.walletService.deductFunds(winner.userId, winner.price, session, {
+          auctionId,
+          bidId: bid._id,
+          reason: `Won round ${roundNumber}`,
+        });
+
+        // Uniform pricing: the rest of the hold goes back to the winner
+        if (winner.amount > winner.price) {
+          await this.walletService.refundFunds(winner.userId, winner.amount - winner.price, session, {
+            auctionId,
+            bidId: bid._id,
+            reason: `Clearing price ${winner.price} in round ${roundNumber}`,
+          });
+        }
+
+        const itemSerialNumber = serials ? serials[from + i] : (roundNumber - 1) * itemsInRound + winner.rank;
+        const wonAt = new Date();
+        await Item.findOneAndUpdate(
+          { auctionId, serialNumber: itemSerialNumber },
+          {
+            $set: {
+              ownerId: winner.userId,
+              roundWon: roundNumber,
+              wonAt,
+              acquiredAt: wonAt,
+              bidId: bid._id,
+            },
+          },
+          { upsert: true, new: true, session }
+        );
+
+        settled.push({
+          userId: winner.userId,
+          bidId: bid._id,
+          amount: winner.amount,
+          price: winner.price,
+          rank: winner.rank,
+          wonAt: new Date(),
+          itemSerialNumber,
+        });
+      }
+
+      const advanced = await this.checkpoint(
+        auctionId,
+        roundNumber,
+        fencingToken,
+        { 'finalization.phase': FinalizationPhase.WINNERS, 'finalization.winnersProcessed': from },
+        {
+          set: {
+            'finalization.winnersProcessed': processed,
+            ...(processed >= finalization.winners.length && { 'finalization.phase': FinalizationPhase.LOSERS }),
+          },
+          push: {
+            winners: { $each: settled },
+          },
+        },
+        session
+      );
+
+      if (!advanced) {
+        await session.abortTransaction();
+        return;
+      }
+
+      await session.commitTransaction();
+
+      if (this.io) {
+        for (const winner of settled) {
+          const itemWon = {
+            auctionId: auctionId.toString(),
+            roundNumber,
+            userId: winner.userId.toString(),
+            itemSerialNumber: winner.itemSerialNumber,
+            amount: winner.amount,
+            price: winner.price,
+            rank: winner.rank,
+          };
+
+          this.io.to(auctionRoom(auctionId.toString())).emit('itemWon', itemWon);
+          this.io.to(userRoom(winner.userId.toString())).emit('wonItem', itemWon);
+        }
+      }
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  // LOSERS: every bid still open in this round lost. Mid-auction they are carried
+  // over to the next round (no money moves); after the last round they are
+  // refunded. Updated bids leave the query, so the query itself is the cursor.
+  private async settleLosersBatch(auction: IAuction, round: IRound, fencingToken: number): Promise<void> {
+    const auctionId = auction._id;
+    const { roundNumber } = round;
+    const isLastRound = roundNumber >= auction.totalRounds;
+    const openInRound = {
+      auctionId,
+      roundNumber,
+      status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+    };
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const bids = await Bid.find(openInRound)
+        .select('_id userId amount')
+        .limit(config.finalizationBatchSize)
+        .session(session);
+
+      if (bids.length === 0) {
+        await this.checkpoint(
+          auctionId,
+          roundNumber,
+          fencingToken,
+          { 'finalization.phase': FinalizationPhase.LOSERS },
+          { set: { 'finalization.phase': FinalizationPhase.ADVANCING } },
+          session
+        );
+        await session.commitTransaction();
+        return;
+      }
+
+      const result = await Bid.updateMany(
+        { ...openInRound, _id: { $in: bids.map(bid => bid._id) } },
+        {
+          $set: isLastRound
+            ? { status: BidStatus.REFUNDED, refundedAt: new Date() }
+            : { status: BidStatus.CARRIED_OVER, roundNumber: roundNumber + 1, isCarriedOver: true },
+        },
+        { session }
+      );
+
+      // Some of these were settled by someone else in the meantime; start over from a fresh read
+      if (result.modifiedCount !== bids.length) {
+        await session.abortTransaction();
+        return;
+      }
+
+      if (isLastRound) {
+        for (const bid of bids) {
+          await this.walletService.refundFunds(bid.userId, bid.amount, session, {
+            auctionId,
+            bidId: bid._id,
+            reason: 'Auction ended without a win',
+          });
+        }
+      }
+
+      const advanced = await this.checkpoint(
+        auctionId,
+        roundNumber,
+        fencingToken,
+        { 'finalization.phase': FinalizationPhase.LOSERS },
+        { inc: { [isLastRound ? 'finalization.losersRefunded' : 'finalization.losersCarriedOver']: bids.length } },
+        session
+      );
+
+      if (!advanced) {
+        await session.abortTransaction();
+        return;
+      }
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  // ADVANCING: closes the round and either starts the next one or completes the auction
+  private async advanceAfterRound(auction: IAuction, round: IRound, fencingToken: number): Promise<void> {
+    const auctionId = auction._id;
+    const { roundNumber } = round;
+    const isLastRound = roundNumber >= auction.totalRounds;
+    const nextRoundNumber = roundNumber + 1;
+    let rescheduledRounds: { roundNumber: number; startTime: Date; endTime: Date }[] = [];
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const advanced = await this.checkpoint(
+        auctionId,
+        roundNumber,
+        fencingToken,
+        { 'finalization.phase': FinalizationPhase.ADVANCING },
+        { set: { status: RoundStatus.COMPLETED, 'finalization.phase': FinalizationPhase.DONE } },
+        session
+      );
+
+      if (!advanced) {
+        await session.abortTransaction();
+        return;
+      }
+
+      // Conditional on ACTIVE so a cancelled auction is neither completed nor advanced
+      let moved: { matchedCount: number };
+
+      if (isLastRound) {
+        moved = await Auction.updateOne(
+          { _id: auctionId, status: AuctionStatus.ACTIVE },
+          { $set: { status: AuctionStatus.COMPLETED, ...(await this.revealFairnessSeed(auction, session)) } },
+          { session }
+        );
+      } else {
+        // Round timing is relative: the next round starts when this one actually
+        // finalizes, so anti-snipe extensions push the rest of the schedule back
+        // instead of making rounds overlap.
+        rescheduledRounds = this.rescheduleRoundsFrom(auction, nextRoundNumber, new Date());
+
+        const roundUpdates: Record<string, unknown> = { currentRound: nextRoundNumber };
+        for (const r of rescheduledRounds) {
+          const idx = auction.rounds.findIndex(existing => existing.roundNumber === r.roundNumber);
+          roundUpdates[`rounds.${idx}.startTime`] = r.startTime;
+          roundUpdates[`rounds.${idx}.endTime`] = r.endTime;
+        }
+        const nextIdx = auction.rounds.findIndex(r => r.roundNumber === nextRoundNumber);
+        roundUpdates[`rounds.${nextIdx}.status`] = RoundStatus.ACTIVE;
+
+        moved = await Auction.updateOne(
+          { _id: auctionId, status: AuctionStatus.ACTIVE },
+          { $set: roundUpdates },
+          { session }
+        );
+      }
+
+      if (moved.matchedCount !== 1) {
+        console.warn(`Auction ${auctionId} is no longer active, not advancing past round ${roundNumber}`);
+        await session.abortTransaction();
+        return;
+      }
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    if (this.io) {
+      this.io.to(auctionRoom(auctionId.toString())).emit('roundEnd', {
+        auctionId: auctionId.toString(),
+        roundNumber,
+        winnersCount: round.winners.length,
+        clearingPrice: round.clearingPrice ?? null,
+        nextRound: isLastRound ? null : nextRoundNumber,
+      });
+    }
+
+    // Post-commit Redis updates. Carried-over bids keep the time they reached
+    // their amount, so the next round's set is rebuilt straight from Mongo.
+    await this.leaderboard.clear(auctionId.toString(), roundNumber);
+
+    if (!isLastRound) {
+      await this.rebuildLeaderboard(auctionId, nextRoundNumber);
+      await this.armRoundEnd(auctionId, nextRoundNumber, rescheduledRounds[0].endTime);
+    }
+
+    if (this.io && rescheduledRounds.length > 0) {
+      const [nextRound] = rescheduledRounds;
+      this.io.to(auctionRoom(auctionId.toString())).emit('roundStarted', {
+        auctionId: auctionId.toString(),
+        roundNumber: nextRound.roundNumber,
+        startTime: nextRound.startTime.toISOString(),
+        endTime: nextRound.endTime.toISOString(),
+        schedule: rescheduledRounds.map(r => ({
+          roundNumber: r.roundNumber,
+          startTime: r.startTime.toISOString(),
+          endTime: r.endTime.toISOString(),
+        })),
+      });
+    }
+  }
+
+  // Round finalization is a checkpointed state machine (see FinalizationPhase).
+  // Each step commits its own bounded transaction together with the checkpoint,
+  // so large rounds stay within transaction limits and a crash or retry resumes
+  // from the last committed batch. Calling it on a completed round is a no-op.
+  //
+  // Replicas all run the scheduler, so only the holder of the round's lock
+  // finalizes it; everyone else returns immediately.
+  async processRoundEnd(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number
+  ): Promise<RoundEndResult> {
+    const lockName = `round-finalization:${auctionId}:${roundNumber}`;
+    const result = await this.locks.withLock(lockName, config.roundLockTtlMs, lock =>
+      this.runFinalization(auctionId, roundNumber, lock)
+    );
+
+    if (!result) {
+      console.log(`Round ${roundNumber} of auction ${auctionId} is being finalized elsewhere, skipping`);
+      return { winnersCount: 0, losersCarriedOver: 0, losersRefunded: 0 };
+    }
+
+    return result;
+  }
+
+  private async runFinalization(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number,
+    lock: Lock
+  ): Promise<RoundEndResult> {
+    try {
+      let auction = await this.startFinalization(auctionId, roundNumber, lock.token);
+
+      if (!auction) {
+        return { winnersCount: 0, losersCarriedOver: 0, losersRefunded: 0 };
+      }
+
+      let round = this.getRound(auction, roundNumber);
+
+      while (round.finalization && round.finalization.phase !== FinalizationPhase.DONE) {
+        // Checkpoints would be rejected anyway; stop instead of spinning
+        if (lock.lost || round.finalization.fencingToken !== lock.token) {
+          throw new Error(`Lost lock ${lock.name} while finalizing round ${roundNumber}`);
+        }
+
+        // A cancelled auction can never advance; stop instead of retrying the same phase
+        if (auction.status !== AuctionStatus.ACTIVE) {
+          console.warn(`Auction ${auctionId} is ${auction.status}, stopping finalization of round ${roundNumber}`);
+          return { winnersCount: 0, losersCarriedOver: 0, losersRefunded: 0 };
+        }
+
+        switch (round.finalization.phase) {
+          case FinalizationPhase.SELECTING:
+            await this.selectWinners(auction, round, lock.token);
+            break;
+          case FinalizationPhase.WINNERS:
+            await this.settleWinnersBatch(auction, round, lock.token);
+            break;
+          case FinalizationPhase.LOSERS:
+            await this.settleLosersBatch(auction, round, lock.token);
+            break;
+          case FinalizationPhase.ADVANCING:
+            await this.advanceAfterRound(auction, round, lock.token);
+            break;
+        }
+
+        auction = await Auction.findById(auctionId);
+
+        if (!auction) {
+          throw new AuctionNotFoundError(auctionId.toString());
+        }
+
+        round = this.getRound(auction, roundNumber);
+      }
+
+      const result: RoundEndResult = {
+        winnersCount: round.winners.length,
+        losersCarriedOver: round.finalization?.losersCarriedOver ?? 0,
+        losersRefunded: round.finalization?.losersRefunded ?? 0,
+      };
+
+      console.log(
+        `✅ Round ${roundNumber} processed for auction ${auctionId}: ` +
+        `${result.winnersCount} winners, ${result.losersCarriedOver} carried over, ${result.losersRefunded} refunded`
+      );
+
+      return result;
+    } catch (error) {
+      console.error(`Error processing round ${roundNumber}:`, error);
+      throw error;
+    }
+  }
+
+  // FINALIZING rounds whose checkpoint has not moved for `olderThanSeconds`.
+  // A healthy finalization writes a checkpoint after every batch.
+  async findStuckRounds(olderThanSeconds: number): Promise<StuckRound[]> {
+    const now = Date.now();
+    const cutoff = new Date(now - olderThanSeconds * 1000);
+
+    const auctions = await Auction.find({
+      status: AuctionStatus.ACTIVE,
+      rounds: {
+        $elemMatch: {
+          status: RoundStatus.FINALIZING,
+          $or: [{ finalization: null }, { 'finalization.updatedAt': { $lte: cutoff } }],
+        },
+      },
+    });
+
+    const stuck: StuckRound[] = [];
+
+    for (const auction of auctions) {
+      for (const round of auction.rounds) {
+        if (round.status !== RoundStatus.FINALIZING) {
+          continue;
+        }
+
+        const lastProgressAt = round.finalization?.updatedAt ?? null;
+        if (lastProgressAt && lastProgressAt > cutoff) {
+          continue;
+        }
+
+        // Without a checkpoint the best guess is the scheduled end of the round
+        const since = (lastProgressAt ?? round.endTime).getTime();
+
+        stuck.push({
+          auctionId: auction._id.toString(),
+          title: auction.title,
+          roundNumber: round.roundNumber,
+          phase: round.finalization?.phase ?? null,
+          attempts: round.finalization?.attempts ?? 0,
+          startedAt: round.finalization?.startedAt ?? null,
+          lastProgressAt,
+          stuckForSeconds: Math.max(0, Math.floor((now - since) / 1000)),
+        });
+      }
+    }
+
+    return stuck;
+  }
+
+  // Admin escape hatch: resumes a FINALIZING round right away, without waiting
+  // for the scheduler's stuck timeout. Safe to repeat, finalization is idempotent.
+  async forceFinalizeRound(
+    auctionId: mongoose.Types.ObjectId,
+    roundNumber: number
+  ): Promise<RoundEndResult> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    const round = this.getRound(auction, roundNumber);
+
+    if (round.status !== RoundStatus.FINALIZING) {
+      throw new RoundNotFinalizingError(auctionId.toString(), roundNumber);
+    }
+
+    return this.processRoundEnd(auctionId, roundNumber);
   }
 
-  async placeBid(
+  // Pulls the user's open bid out of the auction. Whether that is allowed is
+  // decided by the auction's withdrawalPolicy; withdrawalPenaltyPercent of the
+  // bid is deducted and the rest refunded.
+  async withdrawBid(
     userId: mongoose.Types.ObjectId,
-    auctionId: mongoose.Types.ObjectId,
-    amount: number
-  ): Promise<PlaceBidResult> {
-    if (amount <= 0) {
-      throw new InvalidBidAmountError('Bid amount must be positive');
-    }
-
+    auctionId: mongoose.Types.ObjectId
+  ): Promise<WithdrawBidResult> {
     const session = await mongoose.startSession();
     session.startTransaction();
 
@@ -72,129 +1598,73 @@ export class AuctionService {
         throw new AuctionNotActiveError(auctionId.toString());
       }
 
+      // No withdrawals while a round is being finalized
       const activeRound = this.findActiveRound(auction);
 
       if (!activeRound) {
         throw new RoundNotActiveError(auctionId.toString(), auction.currentRound);
       }
 
-      const existingBid = await Bid.findOne({
+      const bid = await Bid.findOne({
         userId,
         auctionId,
         status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
       }).session(session);
 
-      let bid: IBid;
-      let roundExtended = false;
-      let newEndTime: Date | undefined;
-      let finalBidAmount = 0;
+      if (!bid) {
+        throw new NoActiveBidError(auctionId.toString());
+      }
 
-      if (existingBid) {
-        // Bid increment
-        if (amount <= 0) {
-          throw new InvalidBidAmountError('Additional amount must be greater than 0');
+      switch (auction.withdrawalPolicy) {
+        case WithdrawalPolicy.CARRIED_OVER_ONLY:
+          if (bid.status !== BidStatus.CARRIED_OVER) {
+            throw new WithdrawalNotAllowedError('Only bids carried over from a previous round can be withdrawn');
+          }
+          break;
+        case WithdrawalPolicy.OUTSIDE_ANTI_SNIPE_WINDOW: {
+          const timeUntilEnd = activeRound.endTime.getTime() - Date.now();
+          if (timeUntilEnd <= auction.antiSnipeWindowSeconds * 1000) {
+            throw new WithdrawalNotAllowedError('Bids cannot be withdrawn during the anti-snipe window');
+          }
+          break;
         }
-
-        // Lock additional amount
-        await this.walletService.lockFunds(userId, amount, session);
-
-        // Update existing bid
-        existingBid.amount += amount;
-        existingBid.updatedAt = new Date();
-        await existingBid.save({ session });
-
-        bid = existingBid;
-        finalBidAmount = existingBid.amount;
-      } else {
-        // New bid
-        await this.walletService.lockFunds(userId, amount, session);
-
-        bid = new Bid({
-          userId,
-          auctionId,
-          amount,
-          status: BidStatus.ACTIVE,
-          roundNumber: activeRound.roundNumber,
-          originalRound: activeRound.roundNumber,
-          isCarriedOver: false,
-        });
-
-        await bid.save({ session });
-        finalBidAmount = amount;
+        default:
+          throw new WithdrawalNotAllowedError();
       }
 
-      const now = new Date();
-      const timeUntilEnd = activeRound.endTime.getTime() - now.getTime();
-      const antiSnipeWindow = config.antiSnipeWindowSeconds * 1000;
-
-      if (timeUntilEnd > 0 && timeUntilEnd <= antiSnipeWindow) {
-        const extensionMs = config.antiSnipeExtensionSeconds * 1000;
-        newEndTime = new Date(activeRound.endTime.getTime() + extensionMs);
+      const penalty = Math.floor((bid.amount * auction.withdrawalPenaltyPercent) / 100);
+      const refunded = bid.amount - penalty;
+      const ref = { auctionId, bidId: bid._id };
 
-        await Auction.updateOne(
-          {
-            _id: auctionId,
-            'rounds.roundNumber': activeRound.roundNumber
-          },
-          {
-            $set: { 'rounds.$.endTime': newEndTime },
-            $inc: { 'rounds.$.extendedCount': 1 },
-          },
-          { session }
-        );
+      if (penalty > 0) {
+        await this.walletService.deductFunds(userId, penalty, session, { ...ref, reason: 'Withdrawal penalty' });
+      }
 
-        roundExtended = true;
+      if (refunded > 0) {
+        await this.walletService.refundFunds(userId, refunded, session, { ...ref, reason: 'Bid withdrawn' });
       }
 
-      await session.commitTransaction(); // Commit critical DB changes
+      bid.status = BidStatus.CANCELLED;
+      bid.cancelledAt = new Date();
+      await bid.save({ session });
 
-      // Redis and Socket.IO updates happen AFTER commit. 
-      // Theoretically, if node crashing here, Redis might be stale.
-      // But critical data (money/bids) is safe in Mongo.
+      await session.commitTransaction();
 
       try {
-        const leaderboardKey = this.getRedisLeaderboardKey(
-          auctionId.toString(),
-          activeRound.roundNumber
-        );
-
-        await this.redis.zadd(leaderboardKey, finalBidAmount, userId.toString());
+        await this.leaderboard.remove(auctionId.toString(), bid.roundNumber, userId.toString());
       } catch (redisError) {
         console.error('Failed to update Redis leaderboard:', redisError);
       }
 
-      // Re-fetch auction for return value (without session)
-      const updatedAuction = await Auction.findById(auctionId);
-
       if (this.io) {
-        this.io.emit('newBid', {
+        this.io.to(auctionRoom(auctionId.toString())).emit('bidWithdrawn', {
           auctionId: auctionId.toString(),
           userId: userId.toString(),
-          amount: finalBidAmount,
-          roundNumber: activeRound.roundNumber,
+          roundNumber: bid.roundNumber,
         });
-
-        if (roundExtended && newEndTime) {
-          this.io.emit('roundExtended', {
-            auctionId: auctionId.toString(),
-            roundNumber: activeRound.roundNumber,
-            newEndTime: newEndTime.toISOString(),
-          });
-        }
       }
 
-      if (!updatedAuction) {
-        // Should not happen as we just committed
-        throw new AuctionNotFoundError(auctionId.toString());
-      }
-
-      return {
-        bid,
-        auction: updatedAuction,
-        roundExtended,
-        newEndTime,
-      };
-
+      return { bid, refunded, penalty };
     } catch (error) {
       await session.abortTransaction();
       throw error;
@@ -203,52 +1673,37 @@ export class AuctionService {
     }
   }
 
-  async getLeaderboard(
+  // Holds the current round's finalization lock so a cancel never interleaves
+  // with processRoundEnd settling the same bids
+  async cancelAuction(
     auctionId: mongoose.Types.ObjectId,
-    roundNumber: number,
-    limit: number = 100
-  ): Promise<{ userId: string; amount: number; rank: number }[]> {
-    const leaderboardKey = this.getRedisLeaderboardKey(auctionId.toString(), roundNumber);
-
-    const results = await this.redis.zrevrange(leaderboardKey, 0, limit - 1, 'WITHSCORES');
+    reason?: string
+  ): Promise<{ auction: IAuction; bidsRefunded: number }> {
+    const current = await Auction.findById(auctionId).select('currentRound');
 
-    const leaderboard: { userId: string; amount: number; rank: number }[] = [];
-
-    for (let i = 0; i < results.length; i += 2) {
-      leaderboard.push({
-        userId: results[i],
-        amount: parseFloat(results[i + 1]),
-        rank: Math.floor(i / 2) + 1,
-      });
+    if (!current) {
+      throw new AuctionNotFoundError(auctionId.toString());
     }
 
-    return leaderboard;
-  }
-
-  async getUserRank(
-    userId: mongoose.Types.ObjectId,
-    auctionId: mongoose.Types.ObjectId,
-    roundNumber: number
-  ): Promise<{ rank: number | null; amount: number | null }> {
-    const leaderboardKey = this.getRedisLeaderboardKey(auctionId.toString(), roundNumber);
+    const roundNumber = current.currentRound;
+    const result = await this.locks.withLock(
+      `round-finalization:${auctionId}:${roundNumber}`,
+      config.roundLockTtlMs,
+      () => this.cancelUnderLock(auctionId, roundNumber, reason)
+    );
 
-    const rank = await this.redis.zrevrank(leaderboardKey, userId.toString());
-    const score = await this.redis.zscore(leaderboardKey, userId.toString());
+    if (!result) {
+      throw new RoundFinalizingError(auctionId.toString(), roundNumber);
+    }
 
-    return {
-      rank: rank !== null ? rank + 1 : null,
-      amount: score !== null ? parseFloat(score) : null,
-    };
+    return result;
   }
 
-  async processRoundEnd(
+  private async cancelUnderLock(
     auctionId: mongoose.Types.ObjectId,
-    roundNumber: number
-  ): Promise<{ winnersCount: number; losersCarriedOver: number; losersRefunded: number }> {
-    // Note: Wrapping the entire process in one transaction might be heavy if many users.
-    // However, it ensures consistency. For a "demo" or MVB, this is acceptable.
-    // For high scale, valid strategies include batching or eventual consistency with queues.
-
+    lockedRound: number,
+    reason?: string
+  ): Promise<{ auction: IAuction; bidsRefunded: number }> {
     const session = await mongoose.startSession();
     session.startTransaction();
 
@@ -259,253 +1714,222 @@ export class AuctionService {
         throw new AuctionNotFoundError(auctionId.toString());
       }
 
-      const round = auction.rounds.find(r => r.roundNumber === roundNumber);
-
-      if (!round) {
-        throw new RoundNotActiveError(auctionId.toString(), roundNumber);
+      if (auction.status !== AuctionStatus.ACTIVE && auction.status !== AuctionStatus.PENDING) {
+        throw new AuctionNotCancellableError(auctionId.toString(), auction.status);
       }
 
-      if (round.status !== RoundStatus.ACTIVE) {
-        console.log(`Round ${roundNumber} is not active (status: ${round.status}), skipping`);
-        await session.abortTransaction();
-        return { winnersCount: 0, losersCarriedOver: 0, losersRefunded: 0 };
+      // The round advanced before the lock was taken, or an earlier
+      // finalization crashed mid-way and still owns winners it has to settle
+      const finalizing = auction.rounds.find(r => r.status === RoundStatus.FINALIZING);
+      if (finalizing || auction.currentRound !== lockedRound) {
+        throw new RoundFinalizingError(auctionId.toString(), finalizing?.roundNumber ?? auction.currentRound);
       }
 
-      await Auction.updateOne(
-        { _id: auctionId, 'rounds.roundNumber': roundNumber },
-        { $set: { 'rounds.$.status': RoundStatus.FINALIZING } },
-        { session }
-      );
+      const openBids = await Bid.find({
+        auctionId,
+        status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+      }).session(session);
 
-      // We rely on Redis for ranking, which is outside the transaction. 
-      // This is a common pattern: Redis = Truth for Ranking, Mongo = Truth for Balance.
-      const leaderboardKey = this.getRedisLeaderboardKey(auctionId.toString(), roundNumber);
-      const itemsInRound = round.itemsInRound;
+      const cancelledAt = new Date();
 
-      const winnersData = await this.redis.zrevrange(
-        leaderboardKey,
-        0,
-        itemsInRound - 1,
-        'WITHSCORES'
-      );
+      for (const bid of openBids) {
+        bid.status = BidStatus.CANCELLED;
+        bid.cancelledAt = cancelledAt;
+        await bid.save({ session });
 
-      const winners: { userId: string; amount: number }[] = [];
-      for (let i = 0; i < winnersData.length; i += 2) {
-        winners.push({
-          userId: winnersData[i],
-          amount: parseFloat(winnersData[i + 1]),
+        await this.walletService.refundFunds(bid.userId, bid.amount, session, {
+          auctionId,
+          bidId: bid._id,
+          reason: reason ? `Auction cancelled: ${reason}` : 'Auction cancelled',
         });
       }
 
-      let winnersCount = 0;
-      let losersCarriedOver = 0;
-      let losersRefunded = 0;
-
-      const winnerUserIds = winners.map(w => new mongoose.Types.ObjectId(w.userId));
-      const roundWinners: IAuction['rounds'][0]['winners'] = [];
-
-      for (let rankIdx = 0; rankIdx < winners.length; rankIdx++) {
-        const winner = winners[rankIdx];
-        const winnerId = new mongoose.Types.ObjectId(winner.userId);
-
-        const bid = await Bid.findOneAndUpdate(
-          {
-            userId: winnerId,
-            auctionId,
-            status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
-          },
-          {
-            $set: {
-              status: BidStatus.WON,
-              wonAt: new Date(),
-            },
-          },
-          { new: true, session }
-        );
+      auction.status = AuctionStatus.CANCELLED;
+      auction.set(await this.revealFairnessSeed(auction, session));
+      await auction.save({ session });
 
-        if (bid) {
-          // Deduct from frozen funds
-          await this.walletService.deductFunds(winnerId, winner.amount, session);
-
-          const itemSerialNumber = (roundNumber - 1) * itemsInRound + rankIdx + 1;
-          await Item.findOneAndUpdate(
-            { auctionId, serialNumber: itemSerialNumber },
-            {
-              $set: {
-                ownerId: winnerId,
-                roundWon: roundNumber,
-                wonAt: new Date(),
-                bidId: bid._id,
-              },
-            },
-            { upsert: true, new: true, session } // upsert might be dangerous if items pre-generated but ok
-          );
+      await session.commitTransaction();
 
-          roundWinners.push({
-            userId: winnerId,
-            bidId: bid._id,
-            amount: winner.amount,
-            rank: rankIdx + 1,
-            wonAt: new Date(),
-          });
+      await this.disarmTimers(auction);
 
-          winnersCount++;
+      for (const round of auction.rounds) {
+        await this.leaderboard.clear(auctionId.toString(), round.roundNumber);
+      }
 
-          if (this.io) {
-            this.io.emit('itemWon', {
-              auctionId: auctionId.toString(),
-              roundNumber,
-              userId: winnerId.toString(),
-              itemSerialNumber,
-              amount: winner.amount,
-              rank: rankIdx + 1,
-            });
-          }
-        }
+      if (this.io) {
+        this.io.to(auctionRoom(auctionId.toString())).emit('auctionCancelled', {
+          auctionId: auctionId.toString(),
+          reason: reason || null,
+          bidsRefunded: openBids.length,
+        });
       }
 
-      await Auction.updateOne(
-        { _id: auctionId, 'rounds.roundNumber': roundNumber },
-        { $set: { 'rounds.$.winners': roundWinners } },
-        { session }
-      );
+      return { auction, bidsRefunded: openBids.length };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
 
-      // Get losers (all besides winners)
-      // Note: This logic assumes Redis is perfectly synced.
-      const remainingLosers = await this.redis.zrevrange(leaderboardKey, 0, -1, 'WITHSCORES');
-      const losers: { oderId: string; amount: number }[] = [];
+  async getAuctionById(auctionId: mongoose.Types.ObjectId): Promise<IAuction | null> {
+    return Auction.findById(auctionId);
+  }
 
-      // Filter out winners from the full list? 
-      // Actually zrevrange returns EVERYONE.
-      // We need to filter out those who are in winnerUserIds
+  // Running auctions plus scheduled ones that have not started yet
+  async getActiveAuctions(): Promise<IAuction[]> {
+    return Auction.find({
+      status: { $in: [AuctionStatus.ACTIVE, AuctionStatus.PENDING] },
+    }).sort({ createdAt: -1 });
+  }
 
-      const winnerIdsSet = new Set(winnerUserIds.map(id => id.toString()));
+  // Rounds are laid out back-to-back from startTime. Round 1 is ACTIVE only
+  // when the auction starts immediately; a scheduled auction keeps all rounds PENDING.
+  private buildRounds(
+    startTime: Date,
+    totalRounds: number,
+    itemsPerRound: number,
+    roundDurationMinutes: number,
+    activateFirst: boolean,
+    reservePrices: number[] = []
+  ): IRound[] {
+    const rounds: IRound[] = [];
+    const durationMs = roundDurationMinutes * 60 * 1000;
 
-      for (let i = 0; i < remainingLosers.length; i += 2) {
-        const uid = remainingLosers[i];
-        if (!winnerIdsSet.has(uid)) {
-          losers.push({
-            oderId: uid,
-            amount: parseFloat(remainingLosers[i + 1]),
-          });
-        }
-      }
+    for (let i = 0; i < totalRounds; i++) {
+      const roundStart = new Date(startTime.getTime() + i * durationMs);
+      rounds.push({
+        roundNumber: i + 1,
+        status: activateFirst && i === 0 ? RoundStatus.ACTIVE : RoundStatus.PENDING,
+        startTime: roundStart,
+        endTime: new Date(roundStart.getTime() + durationMs),
+        winners: [],
+        itemsInRound: itemsPerRound,
+        extendedCount: 0,
+        reservePrice: reservePrices[i] ?? 0,
+        clearingPrice: null,
+        finalization: null,
+      });
+    }
 
-      const isLastRound = roundNumber >= auction.totalRounds;
-      const nextRoundNumber = roundNumber + 1;
+    return rounds;
+  }
 
-      if (isLastRound) {
-        for (const loser of losers) {
-          const loserUserId = new mongoose.Types.ObjectId(loser.oderId);
-
-          await Bid.updateOne(
-            {
-              userId: loserUserId,
-              auctionId,
-              status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
-            },
-            {
-              $set: {
-                status: BidStatus.REFUNDED,
-                refundedAt: new Date(),
-              },
-            },
-            { session }
-          );
+  private async createItems(auction: IAuction, session?: mongoose.ClientSession): Promise<void> {
+    await Item.insertMany(buildItemsData(auction), { session });
+  }
 
-          await this.walletService.refundFunds(loserUserId, loser.amount, session);
-          losersRefunded++;
-        }
+  // Title and description only feed the item text; the items themselves stay
+  private async refreshItemText(auction: IAuction, session: mongoose.ClientSession): Promise<void> {
+    const items = buildItemsData(auction);
 
-        await Auction.updateOne(
-          { _id: auctionId },
-          { $set: { status: AuctionStatus.COMPLETED } },
-          { session }
-        );
-      } else {
+    await Item.bulkWrite(
+      items.map(item => ({
+        updateOne: {
+          filter: { auctionId: auction._id, serialNumber: item.serialNumber },
+          update: { $set: { 'metadata.name': item.metadata.name, 'metadata.description': item.metadata.description } },
+        },
+      })),
+      { session }
+    );
+  }
 
-        // Prepare Redis updates (pipeline) but execute AFTER commit
-        // Actually, we can't delay finding losers logic easily, but we can delay the Redis Write
+  // Checks the template against the item count and pins a shuffle seed, so the
+  // layout can be regenerated identically later
+  private prepareItemTemplate(template: IItemTemplate | null, totalItems: number): IItemTemplate | null {
+    if (!template) {
+      return null;
+    }
 
-        for (const loser of losers) {
-          const loserUserId = new mongoose.Types.ObjectId(loser.oderId);
+    if (template.rarities && template.rarities.length !== totalItems) {
+      throw new InvalidItemTemplateError(
+        `itemTemplate.rarities has ${template.rarities.length} entries, auction has ${totalItems} items`
+      );
+    }
 
-          await Bid.updateOne(
-            {
-              userId: loserUserId,
-              auctionId,
-              status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
-            },
-            {
-              $set: {
-                status: BidStatus.CARRIED_OVER,
-                roundNumber: nextRoundNumber,
-                isCarriedOver: true,
-              },
-            },
-            { session }
-          );
+    if (template.shuffle && !template.shuffleSeed) {
+      return { ...template, shuffleSeed: generateShuffleSeed() };
+    }
 
-          losersCarriedOver++;
-        }
+    return template;
+  }
 
-        // We will execute redis pipeline after commit.
+  private async loadFairnessSeed(auctionId: mongoose.Types.ObjectId, session: mongoose.ClientSession): Promise<string> {
+    const record = await AuctionSeed.findOne({ auctionId }).session(session);
 
-        await Auction.updateOne(
-          { _id: auctionId, 'rounds.roundNumber': nextRoundNumber },
-          { $set: { 'rounds.$.status': RoundStatus.ACTIVE } },
-          { session }
-        );
+    if (!record) {
+      throw new Error(`Fairness seed missing for auction ${auctionId}`);
+    }
 
-        await Auction.updateOne(
-          { _id: auctionId },
-          { $set: { currentRound: nextRoundNumber } },
-          { session }
-        );
-      }
+    return record.seed;
+  }
 
-      await Auction.updateOne(
-        { _id: auctionId, 'rounds.roundNumber': roundNumber },
-        { $set: { 'rounds.$.status': RoundStatus.COMPLETED } },
-        { session }
-      );
+  // Serials for the round's snapshotted winners, in snapshot order, drawn from
+  // every serial earlier rounds did not hand out. Null for auctions created
+  // before commit-reveal, which keep serials in round order.
+  private async drawRoundSerials(
+    auction: IAuction,
+    round: IRound,
+    session: mongoose.ClientSession
+  ): Promise<number[] | null> {
+    if (!auction.fairness) {
+      return null;
+    }
 
-      await session.commitTransaction();
+    const seed = await this.loadFairnessSeed(auction._id, session);
+    const entries = round.finalization!.winners.map(w => ({ userId: w.userId.toString(), rank: w.rank }));
+    const taken = auction.rounds
+      .filter(r => r.roundNumber < round.roundNumber)
+      .flatMap(r => r.winners.map(w => w.itemSerialNumber ?? 0));
 
-      // Post-commit Redis cleanup/updates
-      await this.redis.del(leaderboardKey); // Clear current round
+    const key = drawKey(seed, auction._id.toString(), round.roundNumber, entries);
+    const serials = drawSerials(key, freeSerials(auction.totalItems, taken), entries.length);
 
-      if (!isLastRound && losers.length > 0) {
-        const pipeline = this.redis.pipeline();
-        const nextRoundKey = this.getRedisLeaderboardKey(auctionId.toString(), nextRoundNumber);
-        for (const loser of losers) {
-          pipeline.zadd(nextRoundKey, loser.amount, loser.oderId);
-        }
-        await pipeline.exec();
-      }
+    if (serials.length < entries.length) {
+      throw new Error(`Not enough items left for round ${round.roundNumber} of auction ${auction._id}`);
+    }
 
-      console.log(
-        `✅ Round ${roundNumber} processed for auction ${auctionId}: ` +
-        `${winnersCount} winners, ${losersCarriedOver} carried over, ${losersRefunded} refunded`
-      );
+    return serials;
+  }
 
-      return { winnersCount, losersCarriedOver, losersRefunded };
+  // Dutch buyers get their item at purchase time, so each purchase is its own draw
+  private async drawDutchSerial(
+    auction: IAuction,
+    round: IRound,
+    userId: mongoose.Types.ObjectId,
+    rank: number,
+    session: mongoose.ClientSession
+  ): Promise<number> {
+    if (!auction.fairness) {
+      return (round.roundNumber - 1) * round.itemsInRound + rank;
+    }
 
-    } catch (error) {
-      console.error(`Error processing round ${roundNumber}:`, error);
-      await session.abortTransaction();
-      throw error;
-    } finally {
-      session.endSession();
+    const seed = await this.loadFairnessSeed(auction._id, session);
+    const taken = auction.rounds.flatMap(r => r.winners.map(w => w.itemSerialNumber ?? 0));
+    const key = drawKey(seed, auction._id.toString(), round.roundNumber, [{ userId: userId.toString(), rank }]);
+    const [serial] = drawSerials(key, freeSerials(auction.totalItems, taken), 1);
+
+    if (serial === undefined) {
+      throw new RoundSoldOutError(round.roundNumber);
     }
-  }
 
-  async getAuctionById(auctionId: mongoose.Types.ObjectId): Promise<IAuction | null> {
-    return Auction.findById(auctionId);
+    return serial;
   }
 
-  async getActiveAuctions(): Promise<IAuction[]> {
-    return Auction.find({ status: AuctionStatus.ACTIVE }).sort({ createdAt: -1 });
+  // Publishes the seed once the outcome can no longer change
+  private async revealFairnessSeed(
+    auction: IAuction,
+    session: mongoose.ClientSession
+  ): Promise<Record<string, unknown>> {
+    if (!auction.fairness) {
+      return {};
+    }
+
+    return {
+      'fairness.seed': await this.loadFairnessSeed(auction._id, session),
+      'fairness.revealedAt': new Date(),
+    };
   }
 
   async createAuction(params: {
@@ -514,6 +1938,22 @@ export class AuctionService {
     itemsPerRound?: number;
     totalRounds?: number;
     roundDurationMinutes?: number;
+    startAt?: Date;
+    createdBy?: mongoose.Types.ObjectId;
+    type?: AuctionType;
+    dutch?: IDutchSettings;
+    pricingMode?: PricingMode;
+    antiSnipeWindowSeconds?: number;
+    antiSnipeExtensionSeconds?: number;
+    antiSnipeMaxExtensions?: number | null;
+    antiSnipeHardCapSeconds?: number | null;
+    antiSnipeMode?: AntiSnipeMode;
+    minBid?: number;
+    minIncrement?: IMinIncrement;
+    reservePrices?: number[];
+    withdrawalPolicy?: WithdrawalPolicy;
+    withdrawalPenaltyPercent?: number;
+    itemTemplate?: IItemTemplate | null;
   }): Promise<IAuction> {
     const {
       title,
@@ -521,82 +1961,257 @@ export class AuctionService {
       itemsPerRound = 10,
       totalRounds = 5,
       roundDurationMinutes = 2,
+      startAt,
+      createdBy,
+      type = AuctionType.MULTI_ROUND,
+      dutch,
+      pricingMode = PricingMode.PAY_AS_BID,
+      antiSnipeWindowSeconds = config.antiSnipeWindowSeconds,
+      antiSnipeExtensionSeconds = config.antiSnipeExtensionSeconds,
+      antiSnipeMaxExtensions = config.antiSnipeMaxExtensions,
+      antiSnipeHardCapSeconds = config.antiSnipeHardCapSeconds,
+      antiSnipeMode = AntiSnipeMode.ANY_BID,
+      minBid = 1,
+      minIncrement = { type: IncrementType.ABSOLUTE, value: 1 },
+      reservePrices = [],
+      withdrawalPolicy = WithdrawalPolicy.NEVER,
+      withdrawalPenaltyPercent = 0,
+      itemTemplate = null,
     } = params;
 
-    // Delete all existing active auctions to keep only one running
-    const existingAuctions = await Auction.find({ status: AuctionStatus.ACTIVE });
-    for (const existing of existingAuctions) {
-      // Clean up Redis leaderboards for all rounds
-      for (let r = 1; r <= existing.totalRounds; r++) {
-        const key = this.getRedisLeaderboardKey(existing._id.toString(), r);
-        await this.redis.del(key);
-      }
-      // Delete related bids and items
-      await Bid.deleteMany({ auctionId: existing._id });
-      await Item.deleteMany({ auctionId: existing._id });
-      await existing.deleteOne();
+    if (type === AuctionType.DUTCH && !dutch) {
+      throw new InvalidAuctionScheduleError('Dutch auctions need a price schedule');
     }
 
-    const now = new Date();
-    const rounds = [];
+    const template = this.prepareItemTemplate(itemTemplate, itemsPerRound * totalRounds);
+    const fairnessSeed = generateFairnessSeed();
 
-    for (let i = 0; i < totalRounds; i++) {
-      const startTime = new Date(now.getTime() + i * roundDurationMinutes * 60 * 1000);
-      const endTime = new Date(startTime.getTime() + roundDurationMinutes * 60 * 1000);
-      rounds.push({
-        roundNumber: i + 1,
-        status: i === 0 ? RoundStatus.ACTIVE : RoundStatus.PENDING,
-        startTime,
-        endTime,
-        winners: [],
-        itemsInRound: itemsPerRound,
-        extendedCount: 0,
-      });
-    }
+    const now = new Date();
+    const isScheduled = !!startAt && startAt > now;
 
     const auction = new Auction({
       title,
       description,
-      status: AuctionStatus.ACTIVE,
+      type,
+      dutch: type === AuctionType.DUTCH ? dutch : null,
+      itemTemplate: template,
+      fairness: { seedHash: hashSeed(fairnessSeed), seed: null, revealedAt: null },
+      status: isScheduled ? AuctionStatus.PENDING : AuctionStatus.ACTIVE,
       totalItems: itemsPerRound * totalRounds,
       itemsPerRound,
       totalRounds,
-      currentRound: 1,
-      rounds,
+      currentRound: isScheduled ? 0 : 1,
+      rounds: this.buildRounds(
+        isScheduled ? startAt : now,
+        totalRounds,
+        itemsPerRound,
+        roundDurationMinutes,
+        !isScheduled,
+        reservePrices
+      ),
+      roundDurationMinutes,
+      startAt: isScheduled ? startAt : now,
+      createdBy: createdBy || null,
+      antiSnipeWindowSeconds,
+      antiSnipeExtensionSeconds,
+      antiSnipeMaxExtensions,
+      antiSnipeHardCapSeconds,
+      antiSnipeMode,
+      minBid,
+      minIncrement,
+      pricingMode,
+      withdrawalPolicy,
+      withdrawalPenaltyPercent,
     });
 
+    // Seed first: an auction must never commit to a hash whose seed was lost
+    await AuctionSeed.create({ auctionId: auction._id, seed: fairnessSeed });
     await auction.save();
 
     // Create items for the auction
-    const totalItems = itemsPerRound * totalRounds;
-    const itemsData = [];
-
-    for (let i = 0; i < totalItems; i++) {
-      itemsData.push({
-        auctionId: auction._id,
-        serialNumber: i + 1,
-        ownerId: null,
-        roundWon: null,
-        wonAt: null,
-        bidId: null,
-        metadata: {
-          name: `${title} #${i + 1}`,
-          description: description,
-          rarity: i < 3 ? 'legendary' : i < Math.floor(totalItems * 0.3) ? 'epic' : 'rare',
-        },
-      });
-    }
+    await this.createItems(auction);
 
-    await Item.insertMany(itemsData);
+    if (isScheduled) {
+      await this.armAuctionStart(auction._id, startAt);
+    } else {
+      await this.armRoundEnd(auction._id, 1, auction.rounds[0].endTime);
+    }
 
     if (this.io) {
       this.io.emit('auctionCreated', {
         auctionId: auction._id.toString(),
         title: auction.title,
-        totalItems,
+        type: auction.type,
+        totalItems: auction.totalItems,
+        status: auction.status,
+        startAt: auction.startAt,
+        seedHash: auction.fairness!.seedHash,
       });
     }
 
     return auction;
   }
+
+  // Edits a scheduled auction before it starts. Changing the item layout
+  // regenerates the items; nobody can own them yet.
+  async updatePendingAuction(
+    auctionId: mongoose.Types.ObjectId,
+    changes: {
+      title?: string;
+      description?: string;
+      itemsPerRound?: number;
+      totalRounds?: number;
+      roundDurationMinutes?: number;
+      startAt?: Date;
+      reservePrices?: number[];
+      // null goes back to the default layout
+      itemTemplate?: IItemTemplate | null;
+    }
+  ): Promise<IAuction> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    if (auction.status !== AuctionStatus.PENDING) {
+      throw new AuctionNotPendingError(auctionId.toString());
+    }
+
+    if (changes.startAt && changes.startAt <= new Date()) {
+      throw new InvalidAuctionScheduleError('startAt must be in the future');
+    }
+
+    const previousTotalItems = auction.totalItems;
+
+    if (changes.title !== undefined) auction.title = changes.title;
+    if (changes.description !== undefined) auction.description = changes.description;
+    if (changes.itemsPerRound !== undefined) auction.itemsPerRound = changes.itemsPerRound;
+    if (changes.totalRounds !== undefined) auction.totalRounds = changes.totalRounds;
+    if (changes.roundDurationMinutes !== undefined) auction.roundDurationMinutes = changes.roundDurationMinutes;
+    if (changes.startAt !== undefined) auction.startAt = changes.startAt;
+
+    auction.totalItems = auction.itemsPerRound * auction.totalRounds;
+
+    const templateChanged = changes.itemTemplate !== undefined;
+    const itemsChanged = templateChanged || auction.totalItems !== previousTotalItems;
+    const textChanged = changes.title !== undefined || changes.description !== undefined;
+    const itemTemplate = this.prepareItemTemplate(
+      templateChanged ? changes.itemTemplate! : auction.itemTemplate,
+      auction.totalItems
+    );
+
+    auction.rounds = this.buildRounds(
+      auction.startAt || new Date(),
+      auction.totalRounds,
+      auction.itemsPerRound,
+      auction.roundDurationMinutes,
+      false,
+      changes.reservePrices ?? auction.rounds.map(r => r.reservePrice)
+    );
+
+    // The auction and its items change together, so a failure never leaves a
+    // pending auction with missing or half-regenerated items
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    let updated: IAuction | null;
+
+    try {
+      // Conditional write so a concurrent activation wins over the edit
+      updated = await Auction.findOneAndUpdate(
+        { _id: auctionId, status: AuctionStatus.PENDING },
+        {
+          $set: {
+            title: auction.title,
+            description: auction.description,
+            itemsPerRound: auction.itemsPerRound,
+            totalRounds: auction.totalRounds,
+            totalItems: auction.totalItems,
+            roundDurationMinutes: auction.roundDurationMinutes,
+            startAt: auction.startAt,
+            rounds: auction.rounds,
+            itemTemplate,
+          },
+        },
+        { new: true, runValidators: true, session }
+      );
+
+      if (!updated) {
+        throw new AuctionNotPendingError(auctionId.toString());
+      }
+
+      if (itemsChanged) {
+        await Item.deleteMany({ auctionId }, { session });
+        await this.createItems(updated, session);
+      } else if (textChanged) {
+        await this.refreshItemText(updated, session);
+      }
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    if (changes.startAt !== undefined && updated.startAt) {
+      await this.armAuctionStart(auctionId, updated.startAt);
+    }
+
+    if (this.io) {
+      this.io.emit('auctionUpdated', {
+        auctionId: auctionId.toString(),
+        title: updated.title,
+        startAt: updated.startAt,
+        totalItems: updated.totalItems,
+      });
+    }
+
+    return updated;
+  }
+
+  // Starts a PENDING auction whose startAt has passed. Round times are laid out
+  // from the actual activation time, which may lag startAt by a scheduler tick.
+  async activateAuction(auctionId: mongoose.Types.ObjectId): Promise<IAuction | null> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction || auction.status !== AuctionStatus.PENDING) {
+      return null;
+    }
+
+    const now = new Date();
+    const rounds = this.buildRounds(
+      now,
+      auction.totalRounds,
+      auction.itemsPerRound,
+      auction.roundDurationMinutes,
+      true,
+      auction.rounds.map(r => r.reservePrice)
+    );
+
+    const activated = await Auction.findOneAndUpdate(
+      { _id: auctionId, status: AuctionStatus.PENDING },
+      { $set: { status: AuctionStatus.ACTIVE, currentRound: 1, rounds } },
+      { new: true }
+    );
+
+    if (!activated) {
+      return null;
+    }
+
+    await this.armRoundEnd(auctionId, 1, rounds[0].endTime);
+
+    if (this.io) {
+      this.io.emit('auctionStarted', {
+        auctionId: auctionId.toString(),
+        title: activated.title,
+        roundNumber: 1,
+        endTime: rounds[0].endTime.toISOString(),
+      });
+    }
+
+    return activated;
+  }
 }
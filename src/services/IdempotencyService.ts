@@ -0,0 +1,79 @@
+import type { Redis } from 'ioredis';
+import { config } from '../config';
+import { IdempotencyKeyInProgressError, IdempotencyKeyReusedError } from '../utils/errors';
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  // What the key was first used for; a different payload under the same key is rejected
+  fingerprint: string;
+  response: StoredResponse | null;
+}
+
+// Remembers responses of non-repeatable requests by client-supplied key, so a
+// retried request gets the original answer instead of being applied twice.
+// Keys are scoped (e.g. per user and operation). A claim expires after
+// idempotencyInProgressTtlSeconds, a stored response after idempotencyKeyTtlSeconds.
+export class IdempotencyService {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  private getKey(scope: string, key: string): string {
+    return `idempotency:${scope}:${key}`;
+  }
+
+  // Claims the key for this request. Returns the stored response if the request
+  // was already completed, or null if the caller should go ahead and then call
+  // complete() or release().
+  async begin(scope: string, key: string, fingerprint: string): Promise<StoredResponse | null> {
+    const redisKey = this.getKey(scope, key);
+    const record: IdempotencyRecord = { fingerprint, response: null };
+
+    const claimed = await this.redis.set(
+      redisKey,
+      JSON.stringify(record),
+      'EX',
+      config.idempotencyInProgressTtlSeconds,
+      'NX'
+    );
+
+    if (claimed === 'OK') {
+      return null;
+    }
+
+    const raw = await this.redis.get(redisKey);
+
+    // Released or expired in between; claim it again
+    if (raw === null) {
+      return this.begin(scope, key, fingerprint);
+    }
+
+    const existing = JSON.parse(raw) as IdempotencyRecord;
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new IdempotencyKeyReusedError(key);
+    }
+
+    if (!existing.response) {
+      throw new IdempotencyKeyInProgressError(key);
+    }
+
+    return existing.response;
+  }
+
+  async complete(scope: string, key: string, fingerprint: string, response: StoredResponse): Promise<void> {
+    const record: IdempotencyRecord = { fingerprint, response };
+    await this.redis.set(this.getKey(scope, key), JSON.stringify(record), 'EX', config.idempotencyKeyTtlSeconds);
+  }
+
+  // The request failed without side effects; a retry with the same key may run again
+  async release(scope: string, key: string): Promise<void> {
+    await this.redis.del(this.getKey(scope, key));
+  }
+}
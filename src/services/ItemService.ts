@@ -0,0 +1,513 @@
+import mongoose from 'mongoose';
+import type { Server as SocketIOServer } from 'socket.io';
+import { Auction, AuctionStatus, AuctionType, Bid, IItem, Item, ItemLockReason, ItemRarity, ItemTransfer, IItemTransfer, ItemTransferType, IOffer, Offer, OfferStatus, User } from '../models';
+import {
+  AuctionNotFoundError,
+  ItemNotFoundError,
+  NotItemOwnerError,
+  ItemLockedError,
+  InvalidTransferError,
+  UserNotFoundError,
+  FairnessNotAvailableError,
+} from '../utils/errors';
+import { userRoom } from '../utils/rooms';
+import { WalletService } from './WalletService';
+import { DrawEntry, drawKey, drawSerials, freeSerials, hashSeed } from '../utils/fairness';
+
+export interface TransferItemResult {
+  item: IItem;
+  transfer: IItemTransfer;
+  // Pending marketplace offers on the item, cancelled and refunded by the transfer
+  voidedOffers: IOffer[];
+}
+
+export interface ProvenanceEntry {
+  // 'auction' for the original win, otherwise the transfer type
+  type: 'auction' | ItemTransferType;
+  fromUserId: string | null;
+  toUserId: string;
+  at: Date;
+  transferId: string | null;
+  message: string | null;
+  // Sale price for marketplace sales
+  price?: number | null;
+  // Only for the auction win
+  auctionId?: string;
+  roundNumber?: number | null;
+  amount?: number | null;
+}
+
+export interface ItemsPage {
+  items: IItem[];
+  nextCursor: string | null;
+}
+
+export interface UserItemsFilter {
+  auctionId?: mongoose.Types.ObjectId;
+  rarity?: ItemRarity;
+  roundWon?: number;
+}
+
+// Position in an inventory page: the last item's acquiredAt and _id.
+// Sent to clients as "<acquiredAt ms>_<itemId>", with 0 for items that have no acquiredAt.
+export interface UserItemsCursor {
+  acquiredAt: Date | null;
+  id: mongoose.Types.ObjectId;
+}
+
+export interface AuctionItemsPage extends ItemsPage {
+  total: number;
+  sold: number;
+}
+
+export enum AuctionItemsStatus {
+  ALL = 'all',
+  SOLD = 'sold',
+  UNSOLD = 'unsold',
+}
+
+export interface ItemDetail {
+  item: IItem;
+  auctionTitle: string | null;
+  // From the round's settled winners; null for unsold items
+  winningBid: {
+    bidId: string;
+    amount: number;
+    price: number;
+    rank: number;
+  } | null;
+}
+
+export interface AssignmentCheck {
+  roundNumber: number;
+  rank: number;
+  userId: string;
+  // What the revealed seed says the winner should have received
+  expectedSerial: number | null;
+  // Serial stored on the round winner
+  recordedSerial: number | null;
+  // Serial of the item actually linked to the winning bid
+  itemSerial: number | null;
+  valid: boolean;
+}
+
+export interface FairnessReport {
+  auctionId: string;
+  status: AuctionStatus;
+  seedHash: string;
+  seed: string | null;
+  revealedAt: Date | null;
+  // The checks below stay null/empty until the seed is revealed
+  seedMatchesHash: boolean | null;
+  verified: boolean | null;
+  assignments: AssignmentCheck[];
+}
+
+const clampLimit = (limit?: number): number => Math.min(Math.max(limit || 50, 1), 200);
+
+const LOCK_DESCRIPTIONS: Record<ItemLockReason, string> = {
+  [ItemLockReason.LISTED]: 'it is listed for sale',
+};
+
+export class ItemService {
+  private walletService: WalletService;
+  private io?: SocketIOServer;
+
+  constructor(walletService: WalletService, io?: SocketIOServer) {
+    this.walletService = walletService;
+    this.io = io;
+  }
+
+  // Offers are made to whoever owned the item at the time; once it changes
+  // hands they are cancelled and the buyers' locked funds returned
+  async voidPendingOffers(
+    itemId: mongoose.Types.ObjectId,
+    reason: string,
+    session: mongoose.ClientSession,
+    exceptOfferId?: mongoose.Types.ObjectId
+  ): Promise<IOffer[]> {
+    const offers = await Offer.find({
+      itemId,
+      status: OfferStatus.PENDING,
+      ...(exceptOfferId ? { _id: { $ne: exceptOfferId } } : {}),
+    }).session(session);
+
+    for (const offer of offers) {
+      offer.status = OfferStatus.CANCELLED;
+      offer.resolvedAt = new Date();
+      await offer.save({ session });
+
+      await this.walletService.refundFunds(offer.buyerId, offer.amount, session, {
+        itemId,
+        reason: `Marketplace offer voided: ${reason}`,
+      });
+    }
+
+    return offers;
+  }
+
+  // Explains why a conditional item update matched nothing
+  async assertTransferable(itemId: mongoose.Types.ObjectId, fromUserId: mongoose.Types.ObjectId): Promise<never> {
+    const item = await Item.findById(itemId).select('ownerId lockedFor');
+
+    if (!item) {
+      throw new ItemNotFoundError(itemId.toString());
+    }
+
+    if (!item.ownerId || !item.ownerId.equals(fromUserId)) {
+      throw new NotItemOwnerError(itemId.toString());
+    }
+
+    if (item.lockedFor) {
+      throw new ItemLockedError(itemId.toString(), LOCK_DESCRIPTIONS[item.lockedFor]);
+    }
+
+    // Changed between the update and this read; the client can simply retry
+    throw new InvalidTransferError('Item changed during the transfer, please retry');
+  }
+
+  // Appends to the item's history, linked to the previous transfer. Must run in
+  // the same transaction as the ownership change.
+  async recordTransfer(
+    data: {
+      itemId: mongoose.Types.ObjectId;
+      fromUserId: mongoose.Types.ObjectId;
+      toUserId: mongoose.Types.ObjectId;
+      type: ItemTransferType;
+      message?: string | null;
+      price?: number | null;
+    },
+    session: mongoose.ClientSession
+  ): Promise<IItemTransfer> {
+    const previous = await ItemTransfer.findOne({ itemId: data.itemId }).sort({ _id: -1 }).select('_id').session(session);
+
+    const [transfer] = await ItemTransfer.create(
+      [
+        {
+          ...data,
+          previousTransferId: previous ? previous._id : null,
+        },
+      ],
+      { session }
+    );
+
+    return transfer;
+  }
+
+  async transferItem(
+    itemId: mongoose.Types.ObjectId,
+    fromUserId: mongoose.Types.ObjectId,
+    toUserId: mongoose.Types.ObjectId,
+    message: string | null = null
+  ): Promise<TransferItemResult> {
+    if (fromUserId.equals(toUserId)) {
+      throw new InvalidTransferError('Cannot transfer an item to yourself');
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const recipient = await User.findById(toUserId).select('_id').session(session);
+
+      if (!recipient) {
+        throw new UserNotFoundError(toUserId.toString());
+      }
+
+      // Owner and lock are checked in the update itself, so a concurrent
+      // transfer or listing cannot slip in between a read and the write
+      const item = await Item.findOneAndUpdate(
+        { _id: itemId, ownerId: fromUserId, lockedFor: null },
+        { $set: { ownerId: toUserId, acquiredAt: new Date() }, $inc: { transferCount: 1 } },
+        { new: true, session }
+      );
+
+      if (!item) {
+        return await this.assertTransferable(itemId, fromUserId);
+      }
+
+      const transfer = await this.recordTransfer(
+        { itemId, fromUserId, toUserId, type: ItemTransferType.GIFT, message: message || null },
+        session
+      );
+
+      const voidedOffers = await this.voidPendingOffers(itemId, 'item transferred', session);
+
+      await session.commitTransaction();
+
+      if (this.io) {
+        for (const offer of voidedOffers) {
+          this.io.to(userRoom(offer.buyerId.toString())).emit('offerCancelled', {
+            offerId: offer._id.toString(),
+            itemId: offer.itemId.toString(),
+            amount: offer.amount,
+            reason: 'Item transferred',
+          });
+        }
+
+        const payload = {
+          itemId: itemId.toString(),
+          auctionId: item.auctionId.toString(),
+          serialNumber: item.serialNumber,
+          name: item.metadata.name,
+          fromUserId: fromUserId.toString(),
+          toUserId: toUserId.toString(),
+          message: transfer.message,
+          transferId: transfer._id.toString(),
+        };
+
+        this.io.to(userRoom(fromUserId.toString())).emit('itemSent', payload);
+        this.io.to(userRoom(toUserId.toString())).emit('itemReceived', payload);
+      }
+
+      return { item, transfer, voidedOffers };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  // Current holdings of a user, most recently acquired first (won, received or
+  // bought), paginated by ?cursor=<acquiredAt>_<lastItemId>
+  async getUserItems(
+    ownerId: mongoose.Types.ObjectId,
+    filter: UserItemsFilter = {},
+    options: { limit?: number; cursor?: UserItemsCursor } = {}
+  ): Promise<ItemsPage> {
+    const limit = clampLimit(options.limit);
+
+    if (!(await User.exists({ _id: ownerId }))) {
+      throw new UserNotFoundError(ownerId.toString());
+    }
+
+    const query: mongoose.FilterQuery<IItem> = { ownerId };
+    if (filter.auctionId) {
+      query.auctionId = filter.auctionId;
+    }
+    if (filter.rarity) {
+      query['metadata.rarity'] = filter.rarity;
+    }
+    if (filter.roundWon !== undefined) {
+      query.roundWon = filter.roundWon;
+    }
+    if (options.cursor) {
+      const { acquiredAt, id } = options.cursor;
+      // Items without acquiredAt sort after every dated one
+      query.$or = acquiredAt
+        ? [
+            { acquiredAt: { $lt: acquiredAt } },
+            { acquiredAt, _id: { $lt: id } },
+            { acquiredAt: null },
+          ]
+        : [{ acquiredAt: null, _id: { $lt: id } }];
+    }
+
+    const items = await Item.find(query).sort({ acquiredAt: -1, _id: -1 }).limit(limit + 1);
+
+    const hasMore = items.length > limit;
+    const page = hasMore ? items.slice(0, limit) : items;
+    const last = page[page.length - 1];
+
+    return {
+      items: page,
+      nextCursor: hasMore ? `${last.acquiredAt ? last.acquiredAt.getTime() : 0}_${last._id.toString()}` : null,
+    };
+  }
+
+  async getItemDetail(itemId: mongoose.Types.ObjectId): Promise<ItemDetail> {
+    const item = await Item.findById(itemId);
+
+    if (!item) {
+      throw new ItemNotFoundError(itemId.toString());
+    }
+
+    const auction = await Auction.findById(item.auctionId).select('title rounds.roundNumber rounds.winners');
+    const round = auction && item.roundWon !== null
+      ? auction.rounds.find(r => r.roundNumber === item.roundWon)
+      : undefined;
+    const winner = round && item.bidId ? round.winners.find(w => w.bidId.equals(item.bidId!)) : undefined;
+
+    return {
+      item,
+      auctionTitle: auction ? auction.title : null,
+      winningBid: winner
+        ? {
+            bidId: winner.bidId.toString(),
+            amount: winner.amount,
+            price: winner.price,
+            rank: winner.rank,
+          }
+        : null,
+    };
+  }
+
+  // Items of an auction by serial number, paginated by ?cursor=<lastSerialNumber>
+  async getAuctionItems(
+    auctionId: mongoose.Types.ObjectId,
+    status: AuctionItemsStatus = AuctionItemsStatus.ALL,
+    options: { limit?: number; cursor?: number } = {}
+  ): Promise<AuctionItemsPage> {
+    const limit = clampLimit(options.limit);
+
+    if (!(await Auction.exists({ _id: auctionId }))) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    const query: mongoose.FilterQuery<IItem> = { auctionId };
+    if (status === AuctionItemsStatus.SOLD) {
+      query.ownerId = { $ne: null };
+    } else if (status === AuctionItemsStatus.UNSOLD) {
+      query.ownerId = null;
+    }
+    if (options.cursor !== undefined) {
+      query.serialNumber = { $gt: options.cursor };
+    }
+
+    const [items, total, sold] = await Promise.all([
+      Item.find(query).sort({ serialNumber: 1 }).limit(limit + 1),
+      Item.countDocuments({ auctionId }),
+      Item.countDocuments({ auctionId, ownerId: { $ne: null } }),
+    ]);
+
+    const hasMore = items.length > limit;
+    const page = hasMore ? items.slice(0, limit) : items;
+
+    return {
+      items: page,
+      nextCursor: hasMore ? String(page[page.length - 1].serialNumber) : null,
+      total,
+      sold,
+    };
+  }
+
+  // Replays the item draw of every finished round with the revealed seed and
+  // compares it with what was recorded. Later rounds draw from the serials the
+  // replay says are still free, so one bad assignment also fails the ones after it.
+  async getFairnessReport(auctionId: mongoose.Types.ObjectId): Promise<FairnessReport> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    if (!auction.fairness) {
+      throw new FairnessNotAvailableError(auctionId.toString());
+    }
+
+    const { seedHash, seed, revealedAt } = auction.fairness;
+    const report: FairnessReport = {
+      auctionId: auctionId.toString(),
+      status: auction.status,
+      seedHash,
+      seed,
+      revealedAt,
+      seedMatchesHash: null,
+      verified: null,
+      assignments: [],
+    };
+
+    if (!seed) {
+      return report;
+    }
+
+    const winners = auction.rounds.flatMap(r => r.winners);
+    const items = await Item.find({ auctionId, bidId: { $in: winners.map(w => w.bidId) } }).select('serialNumber bidId');
+    const itemSerials = new Map(items.map(item => [item.bidId!.toString(), item.serialNumber]));
+
+    const taken: number[] = [];
+    const rounds = [...auction.rounds].sort((a, b) => a.roundNumber - b.roundNumber);
+
+    for (const round of rounds) {
+      const settled = [...round.winners].sort((a, b) => a.rank - b.rank);
+      const expected = new Map<number, number>();
+
+      if (auction.type === AuctionType.DUTCH) {
+        for (const winner of settled) {
+          const entry: DrawEntry = { userId: winner.userId.toString(), rank: winner.rank };
+          const key = drawKey(seed, auctionId.toString(), round.roundNumber, [entry]);
+          const [serial] = drawSerials(key, freeSerials(auction.totalItems, taken), 1);
+          expected.set(winner.rank, serial);
+          taken.push(serial);
+        }
+      } else if (settled.length > 0) {
+        const entries: DrawEntry[] = (round.finalization ? round.finalization.winners : settled).map(w => ({
+          userId: w.userId.toString(),
+          rank: w.rank,
+        }));
+        const key = drawKey(seed, auctionId.toString(), round.roundNumber, entries);
+        const serials = drawSerials(key, freeSerials(auction.totalItems, taken), entries.length);
+
+        entries.forEach((entry, i) => expected.set(entry.rank, serials[i]));
+        // Winners skipped at settlement never got their serial; it stays free
+        taken.push(...settled.map(w => expected.get(w.rank)!).filter(serial => serial !== undefined));
+      }
+
+      for (const winner of settled) {
+        const expectedSerial = expected.get(winner.rank) ?? null;
+        const recordedSerial = winner.itemSerialNumber ?? null;
+        const itemSerial = itemSerials.get(winner.bidId.toString()) ?? null;
+
+        report.assignments.push({
+          roundNumber: round.roundNumber,
+          rank: winner.rank,
+          userId: winner.userId.toString(),
+          expectedSerial,
+          recordedSerial,
+          itemSerial,
+          valid: expectedSerial !== null && expectedSerial === recordedSerial && expectedSerial === itemSerial,
+        });
+      }
+    }
+
+    report.seedMatchesHash = hashSeed(seed) === seedHash;
+    report.verified = report.seedMatchesHash && report.assignments.every(a => a.valid);
+
+    return report;
+  }
+
+  // Ownership chain from the auction win to the current owner, oldest first
+  async getProvenance(itemId: mongoose.Types.ObjectId): Promise<ProvenanceEntry[]> {
+    const item = await Item.findById(itemId);
+
+    if (!item) {
+      throw new ItemNotFoundError(itemId.toString());
+    }
+
+    const chain: ProvenanceEntry[] = [];
+    const transfers = await ItemTransfer.find({ itemId }).sort({ _id: 1 });
+    // The original winner is whoever the first transfer came from, or the owner if it never moved
+    const winnerId = transfers.length > 0 ? transfers[0].fromUserId : item.ownerId;
+
+    if (winnerId && item.wonAt) {
+      const bid = item.bidId ? await Bid.findById(item.bidId).select('amount') : null;
+
+      chain.push({
+        type: 'auction',
+        fromUserId: null,
+        toUserId: winnerId.toString(),
+        at: item.wonAt,
+        transferId: null,
+        message: null,
+        auctionId: item.auctionId.toString(),
+        roundNumber: item.roundWon,
+        amount: bid ? bid.amount : null,
+      });
+    }
+
+    for (const transfer of transfers) {
+      chain.push({
+        type: transfer.type,
+        fromUserId: transfer.fromUserId.toString(),
+        toUserId: transfer.toUserId.toString(),
+        at: transfer.createdAt,
+        transferId: transfer._id.toString(),
+        message: transfer.message,
+        price: transfer.price,
+      });
+    }
+
+    return chain;
+  }
+}
@@ -0,0 +1,191 @@
+import type { Redis } from 'ioredis';
+
+export interface LeaderboardEntry {
+  userId: string;
+  amount: number;
+  // Epoch ms at which the user reached this amount
+  reachedAt: number;
+  rank: number;
+}
+
+export const TIE_BREAK_RULE = 'Equal amounts are ranked by who reached the amount first';
+
+// Round rankings live in two sorted sets per round:
+//   auction:{id}:round:{n}     score = bid amount
+//   auction:{id}:round:{n}:ts  score = time the user reached that amount
+// Redis orders equal scores by member string, which for us is an arbitrary
+// ObjectId order. Every read resolves ties through the :ts set instead, so
+// getLeaderboard, getUserRank and winner selection all agree.
+export class LeaderboardService {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  getKey(auctionId: string, roundNumber: number): string {
+    return `auction:${auctionId}:round:${roundNumber}`;
+  }
+
+  private getTimeKey(auctionId: string, roundNumber: number): string {
+    return `${this.getKey(auctionId, roundNumber)}:ts`;
+  }
+
+  private compare(a: Omit<LeaderboardEntry, 'rank'>, b: Omit<LeaderboardEntry, 'rank'>): number {
+    if (a.amount !== b.amount) return b.amount - a.amount;
+    if (a.reachedAt !== b.reachedAt) return a.reachedAt - b.reachedAt;
+    return a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0;
+  }
+
+  private async withReachedAt(
+    auctionId: string,
+    roundNumber: number,
+    members: { userId: string; amount: number }[]
+  ): Promise<Omit<LeaderboardEntry, 'rank'>[]> {
+    if (members.length === 0) {
+      return [];
+    }
+
+    const times = await this.redis.zmscore(
+      this.getTimeKey(auctionId, roundNumber),
+      ...members.map(m => m.userId)
+    );
+
+    return members.map((m, i) => ({
+      ...m,
+      // Members without a timestamp (written before tie-breaking existed) sort last among ties
+      reachedAt: times[i] !== null ? parseFloat(times[i] as string) : Number.MAX_SAFE_INTEGER,
+    }));
+  }
+
+  private parseWithScores(results: string[]): { userId: string; amount: number }[] {
+    const members: { userId: string; amount: number }[] = [];
+    for (let i = 0; i < results.length; i += 2) {
+      members.push({ userId: results[i], amount: parseFloat(results[i + 1]) });
+    }
+    return members;
+  }
+
+  async upsert(
+    auctionId: string,
+    roundNumber: number,
+    userId: string,
+    amount: number,
+    reachedAt: Date
+  ): Promise<void> {
+    await this.redis
+      .multi()
+      .zadd(this.getKey(auctionId, roundNumber), amount, userId)
+      .zadd(this.getTimeKey(auctionId, roundNumber), reachedAt.getTime(), userId)
+      .exec();
+  }
+
+  async addMany(
+    auctionId: string,
+    roundNumber: number,
+    entries: { userId: string; amount: number; reachedAt: number }[]
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const multi = this.redis.multi();
+    for (const entry of entries) {
+      multi.zadd(this.getKey(auctionId, roundNumber), entry.amount, entry.userId);
+      multi.zadd(this.getTimeKey(auctionId, roundNumber), entry.reachedAt, entry.userId);
+    }
+    await multi.exec();
+  }
+
+  // Atomically swaps the round's contents, used when rebuilding from Mongo
+  async replace(
+    auctionId: string,
+    roundNumber: number,
+    entries: { userId: string; amount: number; reachedAt: number }[]
+  ): Promise<void> {
+    const multi = this.redis.multi();
+    multi.del(this.getKey(auctionId, roundNumber), this.getTimeKey(auctionId, roundNumber));
+    for (const entry of entries) {
+      multi.zadd(this.getKey(auctionId, roundNumber), entry.amount, entry.userId);
+      multi.zadd(this.getTimeKey(auctionId, roundNumber), entry.reachedAt, entry.userId);
+    }
+    await multi.exec();
+  }
+
+  async remove(auctionId: string, roundNumber: number, userId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .zrem(this.getKey(auctionId, roundNumber), userId)
+      .zrem(this.getTimeKey(auctionId, roundNumber), userId)
+      .exec();
+  }
+
+  async clear(auctionId: string, roundNumber: number): Promise<void> {
+    await this.redis.del(this.getKey(auctionId, roundNumber), this.getTimeKey(auctionId, roundNumber));
+  }
+
+  async count(auctionId: string, roundNumber: number): Promise<number> {
+    return this.redis.zcard(this.getKey(auctionId, roundNumber));
+  }
+
+  // Top `limit` entries in tie-broken order; limit <= 0 returns everyone
+  async top(auctionId: string, roundNumber: number, limit: number): Promise<LeaderboardEntry[]> {
+    const key = this.getKey(auctionId, roundNumber);
+    const head = this.parseWithScores(
+      await this.redis.zrevrange(key, 0, limit > 0 ? limit - 1 : -1, 'WITHSCORES')
+    );
+
+    let candidates = head;
+
+    // If the cut falls inside a group of equal amounts, pull in the whole group
+    // so the time tie-break decides who makes it
+    if (limit > 0 && head.length === limit) {
+      const boundary = head[head.length - 1].amount;
+      const tied = await this.redis.zrangebyscore(key, boundary, boundary);
+      candidates = [
+        ...head.filter(m => m.amount > boundary),
+        ...tied.map(userId => ({ userId, amount: boundary })),
+      ];
+    }
+
+    const sorted = (await this.withReachedAt(auctionId, roundNumber, candidates)).sort((a, b) => this.compare(a, b));
+    const limited = limit > 0 ? sorted.slice(0, limit) : sorted;
+
+    return limited.map((entry, i) => ({ ...entry, rank: i + 1 }));
+  }
+
+  // Entry at a 1-based rank, e.g. the last winning place
+  async entryAtRank(auctionId: string, roundNumber: number, rank: number): Promise<LeaderboardEntry | null> {
+    const entries = await this.top(auctionId, roundNumber, rank);
+    return entries.length === rank ? entries[rank - 1] : null;
+  }
+
+  async getEntry(auctionId: string, roundNumber: number, userId: string): Promise<LeaderboardEntry | null> {
+    const key = this.getKey(auctionId, roundNumber);
+    const score = await this.redis.zscore(key, userId);
+
+    if (score === null) {
+      return null;
+    }
+
+    const amount = parseFloat(score);
+    const higher = await this.redis.zcount(key, `(${amount}`, '+inf');
+    const tied = await this.redis.zrangebyscore(key, amount, amount);
+
+    const tiedEntries = await this.withReachedAt(
+      auctionId,
+      roundNumber,
+      tied.map(id => ({ userId: id, amount }))
+    );
+    const self = tiedEntries.find(e => e.userId === userId);
+
+    // Removed between the reads (withdrawal, carry-over rebuild)
+    if (!self) {
+      return null;
+    }
+
+    const ahead = tiedEntries.filter(e => this.compare(e, self) < 0).length;
+
+    return { ...self, rank: higher + ahead + 1 };
+  }
+}
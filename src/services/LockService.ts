@@ -0,0 +1,187 @@
+import type { Redis } from 'ioredis';
+import { config } from '../config';
+
+export interface Lock {
+  name: string;
+  // Fencing token: strictly increasing across all acquisitions. Writers pass it
+  // along so storage can reject a holder whose lock has since expired.
+  token: number;
+  acquiredAt: Date;
+  // Set when a heartbeat finds the lock gone or taken over
+  lost: boolean;
+}
+
+export interface LockHolder {
+  instanceId: string;
+  token: number;
+  ttlMs: number;
+}
+
+export interface LockMetrics {
+  instanceId: string;
+  acquired: number;
+  contended: number;
+  released: number;
+  lost: number;
+  lastAcquiredAt: Date | null;
+  held: { name: string; token: number; acquiredAt: Date }[];
+}
+
+const FENCE_KEY = 'lock:fence';
+
+// SET NX PX, and on success hand out the next fencing token. The counter never
+// drops below the current time in ms, so tokens keep increasing even if Redis
+// loses the counter.
+const ACQUIRE_SCRIPT = `
+if redis.call('SET', KEYS[1], 'pending', 'NX', 'PX', ARGV[2]) then
+  local token = redis.call('INCR', KEYS[2])
+  local now = tonumber(ARGV[3])
+  if token < now then
+    token = now
+    redis.call('SET', KEYS[2], token)
+  end
+  redis.call('SET', KEYS[1], ARGV[1] .. ':' .. token, 'PX', ARGV[2])
+  return token
+end
+return false
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const EXTEND_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// Redis mutex with TTL and fencing tokens. The TTL keeps a crashed instance from
+// holding a lock forever; while the holder is alive withLock keeps extending it.
+export class LockService {
+  private redis: Redis;
+  private instanceId: string;
+  private held = new Map<string, Lock>();
+  private metrics = { acquired: 0, contended: 0, released: 0, lost: 0, lastAcquiredAt: null as Date | null };
+
+  constructor(redis: Redis, instanceId: string = config.instanceId) {
+    this.redis = redis;
+    this.instanceId = instanceId;
+  }
+
+  private getKey(name: string): string {
+    return `lock:${name}`;
+  }
+
+  private getValue(lock: Lock): string {
+    return `${this.instanceId}:${lock.token}`;
+  }
+
+  async acquire(name: string, ttlMs: number): Promise<Lock | null> {
+    const token = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      2,
+      this.getKey(name),
+      FENCE_KEY,
+      this.instanceId,
+      ttlMs,
+      Date.now()
+    );
+
+    if (token === null) {
+      this.metrics.contended++;
+      return null;
+    }
+
+    const lock: Lock = { name, token: Number(token), acquiredAt: new Date(), lost: false };
+    this.held.set(name, lock);
+    this.metrics.acquired++;
+    this.metrics.lastAcquiredAt = lock.acquiredAt;
+
+    return lock;
+  }
+
+  async extend(lock: Lock, ttlMs: number): Promise<boolean> {
+    const extended = await this.redis.eval(EXTEND_SCRIPT, 1, this.getKey(lock.name), this.getValue(lock), ttlMs);
+
+    if (extended !== 1 && !lock.lost) {
+      lock.lost = true;
+      this.metrics.lost++;
+      this.held.delete(lock.name);
+      console.warn(`⚠️ Lock ${lock.name} (token ${lock.token}) was lost`);
+    }
+
+    return extended === 1;
+  }
+
+  async release(lock: Lock): Promise<void> {
+    if (this.held.get(lock.name) === lock) {
+      this.held.delete(lock.name);
+    }
+
+    const released = await this.redis.eval(RELEASE_SCRIPT, 1, this.getKey(lock.name), this.getValue(lock));
+    if (released === 1) {
+      this.metrics.released++;
+    }
+  }
+
+  // Runs fn while holding the lock, extending it every ttl/3.
+  // Returns null without calling fn if another holder has it.
+  async withLock<T>(name: string, ttlMs: number, fn: (lock: Lock) => Promise<T>): Promise<T | null> {
+    const lock = await this.acquire(name, ttlMs);
+
+    if (!lock) {
+      return null;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.extend(lock, ttlMs).catch(error => {
+        console.error(`Failed to extend lock ${name}:`, error);
+      });
+    }, Math.max(1000, Math.floor(ttlMs / 3)));
+
+    try {
+      return await fn(lock);
+    } finally {
+      clearInterval(heartbeat);
+      try {
+        await this.release(lock);
+      } catch (error) {
+        // It will expire on its own
+        console.error(`Failed to release lock ${name}:`, error);
+      }
+    }
+  }
+
+  async getHolder(name: string): Promise<LockHolder | null> {
+    const key = this.getKey(name);
+    const [value, ttlMs] = await Promise.all([this.redis.get(key), this.redis.pttl(key)]);
+
+    if (!value) {
+      return null;
+    }
+
+    const separator = value.lastIndexOf(':');
+    return {
+      instanceId: value.slice(0, separator),
+      token: Number(value.slice(separator + 1)),
+      ttlMs,
+    };
+  }
+
+  getMetrics(): LockMetrics {
+    return {
+      instanceId: this.instanceId,
+      ...this.metrics,
+      held: Array.from(this.held.values()).map(lock => ({
+        name: lock.name,
+        token: lock.token,
+        acquiredAt: lock.acquiredAt,
+      })),
+    };
+  }
+}
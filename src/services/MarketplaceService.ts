@@ -0,0 +1,638 @@
+import mongoose from 'mongoose';
+import type { Server as SocketIOServer } from 'socket.io';
+import {
+  Auction,
+  IItem,
+  IListing,
+  IOffer,
+  ISaleBreakdown,
+  IItemTransfer,
+  Item,
+  ItemLockReason,
+  ItemTransferType,
+  Listing,
+  ListingStatus,
+  Offer,
+  OfferStatus,
+} from '../models';
+import { WalletService } from './WalletService';
+import { ItemService } from './ItemService';
+import { config } from '../config';
+import {
+  ItemNotFoundError,
+  NotItemOwnerError,
+  ListingNotFoundError,
+  ListingNotActiveError,
+  OfferNotFoundError,
+  OfferNotPendingError,
+  InvalidMarketActionError,
+  ForbiddenError,
+} from '../utils/errors';
+import { userRoom } from '../utils/rooms';
+
+export interface SaleResult {
+  item: IItem;
+  sale: ISaleBreakdown;
+  transfer: IItemTransfer;
+  // Other pending offers on the item, cancelled and refunded by the sale
+  voidedOffers: IOffer[];
+}
+
+export interface ListingsPage {
+  listings: IListing[];
+  nextCursor: string | null;
+}
+
+export interface OffersPage {
+  offers: IOffer[];
+  nextCursor: string | null;
+}
+
+export enum OfferRole {
+  // Offers made by the user
+  OUTGOING = 'outgoing',
+  // Pending offers on items the user owns
+  INCOMING = 'incoming',
+}
+
+const clampLimit = (limit?: number): number => Math.min(Math.max(limit || 50, 1), 200);
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Resale of won items between users: fixed-price listings and offers.
+// The buyer's money is always locked with lockFunds first (up front for offers,
+// right before settlement for listings), and settlement deducts it, pays the
+// seller, the fee and the royalty, and moves the item in one Mongo transaction.
+export class MarketplaceService {
+  private walletService: WalletService;
+  private itemService: ItemService;
+  private io?: SocketIOServer;
+  private treasuryId: mongoose.Types.ObjectId | null;
+
+  constructor(walletService: WalletService, itemService: ItemService, io?: SocketIOServer) {
+    this.walletService = walletService;
+    this.itemService = itemService;
+    this.io = io;
+    this.treasuryId = null;
+
+    const treasuryId = config.marketplaceTreasuryUserId;
+    if (treasuryId && mongoose.Types.ObjectId.isValid(treasuryId)) {
+      this.treasuryId = new mongoose.Types.ObjectId(treasuryId);
+    } else if (treasuryId) {
+      console.warn(`MARKETPLACE_TREASURY_USER_ID is not a valid id: ${treasuryId}; no marketplace fee will be charged`);
+    }
+  }
+
+  // Fee and royalty are rounded down; the seller gets the rest. The fee needs
+  // a treasury account to land in, so without one it is not charged.
+  private splitPrice(price: number, royaltyRecipientId: mongoose.Types.ObjectId | null): ISaleBreakdown {
+    const fee = this.treasuryId ? Math.floor((price * config.marketplaceFeePercent) / 100) : 0;
+    const royalty = royaltyRecipientId ? Math.floor((price * config.marketplaceRoyaltyPercent) / 100) : 0;
+
+    return {
+      price,
+      fee,
+      royalty,
+      royaltyRecipientId: royalty > 0 ? royaltyRecipientId : null,
+      sellerProceeds: Math.max(0, price - fee - royalty),
+    };
+  }
+
+  // Moves the item to the buyer and settles the buyer's locked funds. The caller
+  // has already locked `price` for the buyer within the same session.
+  private async settle(
+    params: {
+      itemId: mongoose.Types.ObjectId;
+      sellerId: mongoose.Types.ObjectId;
+      buyerId: mongoose.Types.ObjectId;
+      price: number;
+      // The item's lock the sale expects, null when it was not listed
+      expectedLock: ItemLockReason | null;
+      acceptedOfferId?: mongoose.Types.ObjectId;
+    },
+    session: mongoose.ClientSession
+  ): Promise<SaleResult> {
+    const { itemId, sellerId, buyerId, price } = params;
+
+    const item = await Item.findOneAndUpdate(
+      { _id: itemId, ownerId: sellerId, lockedFor: params.expectedLock },
+      { $set: { ownerId: buyerId, lockedFor: null, acquiredAt: new Date() }, $inc: { transferCount: 1 } },
+      { new: true, session }
+    );
+
+    if (!item) {
+      throw new InvalidMarketActionError('Item is no longer available for this sale');
+    }
+
+    const auction = await Auction.findById(item.auctionId).select('createdBy').session(session);
+    const creatorId = auction && auction.createdBy && !auction.createdBy.equals(sellerId) ? auction.createdBy : null;
+    const sale = this.splitPrice(price, creatorId);
+
+    await this.walletService.deductFunds(buyerId, price, session, {
+      itemId,
+      reason: `Marketplace purchase of item #${item.serialNumber}`,
+    });
+
+    if (sale.sellerProceeds > 0) {
+      await this.walletService.depositFunds(sellerId, sale.sellerProceeds, session, {
+        itemId,
+        reason: `Marketplace sale of item #${item.serialNumber} (price ${price}, fee ${sale.fee}, royalty ${sale.royalty})`,
+      });
+    }
+
+    if (sale.fee > 0) {
+      await this.walletService.depositFunds(this.treasuryId!, sale.fee, session, {
+        itemId,
+        reason: `Marketplace fee for sale of item #${item.serialNumber}`,
+      });
+    }
+
+    if (sale.royalty > 0 && sale.royaltyRecipientId) {
+      await this.walletService.depositFunds(sale.royaltyRecipientId, sale.royalty, session, {
+        itemId,
+        reason: `Royalty for resale of item #${item.serialNumber}`,
+      });
+    }
+
+    const transfer = await this.itemService.recordTransfer(
+      { itemId, fromUserId: sellerId, toUserId: buyerId, type: ItemTransferType.SALE, price },
+      session
+    );
+
+    // Offers were made to the previous owner at a price that no longer applies
+    const voidedOffers = await this.itemService.voidPendingOffers(itemId, 'item sold', session, params.acceptedOfferId);
+
+    return { item, sale, transfer, voidedOffers };
+  }
+
+  private emitSale(result: SaleResult, sellerId: mongoose.Types.ObjectId, buyerId: mongoose.Types.ObjectId, listingId: string | null): void {
+    if (!this.io) {
+      return;
+    }
+
+    const payload = {
+      itemId: result.item._id.toString(),
+      serialNumber: result.item.serialNumber,
+      auctionId: result.item.auctionId.toString(),
+      listingId,
+      sellerId: sellerId.toString(),
+      buyerId: buyerId.toString(),
+      price: result.sale.price,
+    };
+
+    this.io.emit('itemSold', payload);
+    this.io.to(userRoom(sellerId.toString())).emit('marketSaleCompleted', { ...payload, sale: result.sale });
+    this.io.to(userRoom(buyerId.toString())).emit('marketPurchaseCompleted', payload);
+
+    for (const offer of result.voidedOffers) {
+      this.io.to(userRoom(offer.buyerId.toString())).emit('offerCancelled', {
+        offerId: offer._id.toString(),
+        itemId: offer.itemId.toString(),
+        amount: offer.amount,
+        reason: 'Item sold',
+      });
+    }
+  }
+
+  async createListing(sellerId: mongoose.Types.ObjectId, itemId: mongoose.Types.ObjectId, price: number): Promise<IListing> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const item = await Item.findOneAndUpdate(
+        { _id: itemId, ownerId: sellerId, lockedFor: null },
+        { $set: { lockedFor: ItemLockReason.LISTED } },
+        { new: true, session }
+      );
+
+      if (!item) {
+        return await this.itemService.assertTransferable(itemId, sellerId);
+      }
+
+      const [listing] = await Listing.create(
+        [{ itemId, auctionId: item.auctionId, sellerId, price }],
+        { session }
+      );
+
+      await session.commitTransaction();
+
+      if (this.io) {
+        this.io.emit('listingCreated', {
+          listingId: listing._id.toString(),
+          itemId: itemId.toString(),
+          serialNumber: item.serialNumber,
+          auctionId: item.auctionId.toString(),
+          sellerId: sellerId.toString(),
+          price,
+        });
+      }
+
+      return listing;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  async cancelListing(sellerId: mongoose.Types.ObjectId, listingId: mongoose.Types.ObjectId): Promise<IListing> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const listing = await Listing.findOneAndUpdate(
+        { _id: listingId, sellerId, status: ListingStatus.ACTIVE },
+        { $set: { status: ListingStatus.CANCELLED, cancelledAt: new Date() } },
+        { new: true, session }
+      );
+
+      if (!listing) {
+        const existing = await Listing.findById(listingId).session(session);
+        if (!existing) {
+          throw new ListingNotFoundError(listingId.toString());
+        }
+        if (!existing.sellerId.equals(sellerId)) {
+          throw new ForbiddenError('Only the seller can cancel a listing');
+        }
+        throw new ListingNotActiveError(listingId.toString());
+      }
+
+      await Item.updateOne(
+        { _id: listing.itemId, lockedFor: ItemLockReason.LISTED },
+        { $set: { lockedFor: null } },
+        { session }
+      );
+
+      await session.commitTransaction();
+
+      if (this.io) {
+        this.io.emit('listingCancelled', {
+          listingId: listing._id.toString(),
+          itemId: listing.itemId.toString(),
+          sellerId: sellerId.toString(),
+        });
+      }
+
+      return listing;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  async buyListing(buyerId: mongoose.Types.ObjectId, listingId: mongoose.Types.ObjectId): Promise<SaleResult & { listing: IListing }> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const listing = await Listing.findById(listingId).session(session);
+
+      if (!listing) {
+        throw new ListingNotFoundError(listingId.toString());
+      }
+
+      if (listing.sellerId.equals(buyerId)) {
+        throw new InvalidMarketActionError('Cannot buy your own listing');
+      }
+
+      // Claims the listing; a concurrent buyer gets null here
+      const claimed = await Listing.findOneAndUpdate(
+        { _id: listingId, status: ListingStatus.ACTIVE },
+        { $set: { status: ListingStatus.SOLD, buyerId, soldAt: new Date() } },
+        { new: true, session }
+      );
+
+      if (!claimed) {
+        throw new ListingNotActiveError(listingId.toString());
+      }
+
+      await this.walletService.lockFunds(buyerId, claimed.price, session, {
+        itemId: claimed.itemId,
+        reason: 'Marketplace purchase',
+      });
+
+      const result = await this.settle(
+        {
+          itemId: claimed.itemId,
+          sellerId: claimed.sellerId,
+          buyerId,
+          price: claimed.price,
+          expectedLock: ItemLockReason.LISTED,
+        },
+        session
+      );
+
+      claimed.sale = result.sale;
+      await claimed.save({ session });
+
+      await session.commitTransaction();
+
+      this.emitSale(result, claimed.sellerId, buyerId, claimed._id.toString());
+
+      return { ...result, listing: claimed };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  async makeOffer(buyerId: mongoose.Types.ObjectId, itemId: mongoose.Types.ObjectId, amount: number): Promise<IOffer> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const item = await Item.findById(itemId).session(session);
+
+      if (!item) {
+        throw new ItemNotFoundError(itemId.toString());
+      }
+
+      if (!item.ownerId) {
+        throw new InvalidMarketActionError('Item has not been won yet');
+      }
+
+      if (item.ownerId.equals(buyerId)) {
+        throw new InvalidMarketActionError('Cannot make an offer on your own item');
+      }
+
+      if (await Offer.exists({ itemId, buyerId, status: OfferStatus.PENDING }).session(session)) {
+        throw new InvalidMarketActionError('You already have a pending offer on this item');
+      }
+
+      await this.walletService.lockFunds(buyerId, amount, session, {
+        itemId,
+        reason: 'Marketplace offer',
+      });
+
+      const [offer] = await Offer.create([{ itemId, buyerId, amount }], { session });
+
+      await session.commitTransaction();
+
+      if (this.io) {
+        this.io.to(userRoom(item.ownerId.toString())).emit('offerReceived', {
+          offerId: offer._id.toString(),
+          itemId: itemId.toString(),
+          serialNumber: item.serialNumber,
+          buyerId: buyerId.toString(),
+          amount,
+        });
+      }
+
+      return offer;
+    } catch (error) {
+      await session.abortTransaction();
+      if (isDuplicateKeyError(error)) {
+        throw new InvalidMarketActionError('You already have a pending offer on this item');
+      }
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  // Buyer withdraws a pending offer and gets the locked funds back
+  async cancelOffer(buyerId: mongoose.Types.ObjectId, offerId: mongoose.Types.ObjectId): Promise<IOffer> {
+    const offer = await this.resolveOffer(offerId, { buyerId }, OfferStatus.CANCELLED, null, 'Marketplace offer cancelled');
+
+    if (this.io) {
+      const item = await Item.findById(offer.itemId).select('ownerId');
+      if (item && item.ownerId) {
+        this.io.to(userRoom(item.ownerId.toString())).emit('offerCancelled', {
+          offerId: offer._id.toString(),
+          itemId: offer.itemId.toString(),
+          amount: offer.amount,
+          reason: 'Withdrawn by buyer',
+        });
+      }
+    }
+
+    return offer;
+  }
+
+  async rejectOffer(ownerId: mongoose.Types.ObjectId, offerId: mongoose.Types.ObjectId): Promise<IOffer> {
+    const offer = await this.resolveOffer(offerId, {}, OfferStatus.REJECTED, ownerId, 'Marketplace offer rejected');
+
+    if (this.io) {
+      this.io.to(userRoom(offer.buyerId.toString())).emit('offerRejected', {
+        offerId: offer._id.toString(),
+        itemId: offer.itemId.toString(),
+        amount: offer.amount,
+      });
+    }
+
+    return offer;
+  }
+
+  // Ends a pending offer without a sale and releases the buyer's funds.
+  // `ownerId` is checked against the item's current owner when given.
+  private async resolveOffer(
+    offerId: mongoose.Types.ObjectId,
+    filter: { buyerId?: mongoose.Types.ObjectId },
+    status: OfferStatus,
+    ownerId: mongoose.Types.ObjectId | null,
+    reason: string
+  ): Promise<IOffer> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const existing = await Offer.findById(offerId).session(session);
+
+      if (!existing) {
+        throw new OfferNotFoundError(offerId.toString());
+      }
+
+      if (filter.buyerId && !existing.buyerId.equals(filter.buyerId)) {
+        throw new ForbiddenError('Only the buyer can cancel an offer');
+      }
+
+      if (ownerId) {
+        const item = await Item.findById(existing.itemId).select('ownerId').session(session);
+        if (!item || !item.ownerId || !item.ownerId.equals(ownerId)) {
+          throw new NotItemOwnerError(existing.itemId.toString());
+        }
+      }
+
+      const offer = await Offer.findOneAndUpdate(
+        { _id: offerId, status: OfferStatus.PENDING },
+        { $set: { status, sellerId: ownerId, resolvedAt: new Date() } },
+        { new: true, session }
+      );
+
+      if (!offer) {
+        throw new OfferNotPendingError(offerId.toString());
+      }
+
+      await this.walletService.refundFunds(offer.buyerId, offer.amount, session, {
+        itemId: offer.itemId,
+        reason,
+      });
+
+      await session.commitTransaction();
+      return offer;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  // The current owner sells at the offered amount. An active listing of the
+  // item is cancelled as part of the same sale.
+  async acceptOffer(ownerId: mongoose.Types.ObjectId, offerId: mongoose.Types.ObjectId): Promise<SaleResult & { offer: IOffer }> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const existing = await Offer.findById(offerId).session(session);
+
+      if (!existing) {
+        throw new OfferNotFoundError(offerId.toString());
+      }
+
+      const item = await Item.findById(existing.itemId).select('ownerId lockedFor').session(session);
+
+      if (!item || !item.ownerId || !item.ownerId.equals(ownerId)) {
+        throw new NotItemOwnerError(existing.itemId.toString());
+      }
+
+      if (item.lockedFor && item.lockedFor !== ItemLockReason.LISTED) {
+        throw new InvalidMarketActionError('Item is not available for sale right now');
+      }
+
+      const offer = await Offer.findOneAndUpdate(
+        { _id: offerId, status: OfferStatus.PENDING },
+        { $set: { status: OfferStatus.ACCEPTED, sellerId: ownerId, resolvedAt: new Date() } },
+        { new: true, session }
+      );
+
+      if (!offer) {
+        throw new OfferNotPendingError(offerId.toString());
+      }
+
+      const listing = await Listing.findOneAndUpdate(
+        { itemId: offer.itemId, status: ListingStatus.ACTIVE },
+        { $set: { status: ListingStatus.CANCELLED, cancelledAt: new Date() } },
+        { new: true, session }
+      );
+
+      // The offer amount has been locked since the offer was made
+      const result = await this.settle(
+        {
+          itemId: offer.itemId,
+          sellerId: ownerId,
+          buyerId: offer.buyerId,
+          price: offer.amount,
+          expectedLock: listing ? ItemLockReason.LISTED : null,
+          acceptedOfferId: offer._id,
+        },
+        session
+      );
+
+      offer.sale = result.sale;
+      await offer.save({ session });
+
+      await session.commitTransaction();
+
+      if (this.io && listing) {
+        this.io.emit('listingCancelled', {
+          listingId: listing._id.toString(),
+          itemId: listing.itemId.toString(),
+          sellerId: ownerId.toString(),
+        });
+      }
+
+      if (this.io) {
+        this.io.to(userRoom(offer.buyerId.toString())).emit('offerAccepted', {
+          offerId: offer._id.toString(),
+          itemId: offer.itemId.toString(),
+          amount: offer.amount,
+        });
+      }
+
+      this.emitSale(result, ownerId, offer.buyerId, null);
+
+      return { ...result, offer };
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  async getListing(listingId: mongoose.Types.ObjectId): Promise<IListing> {
+    const listing = await Listing.findById(listingId);
+
+    if (!listing) {
+      throw new ListingNotFoundError(listingId.toString());
+    }
+
+    return listing;
+  }
+
+  // Active listings, newest first, paginated by ?cursor=<lastListingId>
+  async getListings(
+    filter: { auctionId?: mongoose.Types.ObjectId; sellerId?: mongoose.Types.ObjectId } = {},
+    options: { limit?: number; cursor?: mongoose.Types.ObjectId } = {}
+  ): Promise<ListingsPage> {
+    const limit = clampLimit(options.limit);
+
+    const query: mongoose.FilterQuery<IListing> = { status: ListingStatus.ACTIVE };
+    if (filter.auctionId) {
+      query.auctionId = filter.auctionId;
+    }
+    if (filter.sellerId) {
+      query.sellerId = filter.sellerId;
+    }
+    if (options.cursor) {
+      query._id = { $lt: options.cursor };
+    }
+
+    const listings = await Listing.find(query).sort({ _id: -1 }).limit(limit + 1);
+
+    const hasMore = listings.length > limit;
+    const page = hasMore ? listings.slice(0, limit) : listings;
+
+    return {
+      listings: page,
+      nextCursor: hasMore ? page[page.length - 1]._id.toString() : null,
+    };
+  }
+
+  async getOffers(
+    userId: mongoose.Types.ObjectId,
+    role: OfferRole,
+    options: { limit?: number; cursor?: mongoose.Types.ObjectId } = {}
+  ): Promise<OffersPage> {
+    const limit = clampLimit(options.limit);
+
+    let query: mongoose.FilterQuery<IOffer>;
+    if (role === OfferRole.OUTGOING) {
+      query = { buyerId: userId };
+    } else {
+      const owned = await Item.find({ ownerId: userId }).select('_id');
+      query = { itemId: { $in: owned.map(i => i._id) }, status: OfferStatus.PENDING };
+    }
+    if (options.cursor) {
+      query._id = { $lt: options.cursor };
+    }
+
+    const offers = await Offer.find(query).sort({ _id: -1 }).limit(limit + 1);
+
+    const hasMore = offers.length > limit;
+    const page = hasMore ? offers.slice(0, limit) : offers;
+
+    return {
+      offers: page,
+      nextCursor: hasMore ? page[page.length - 1]._id.toString() : null,
+    };
+  }
+}
@@ -0,0 +1,382 @@
+import mongoose from 'mongoose';
+import type { Redis } from 'ioredis';
+import type { Server as SocketIOServer } from 'socket.io';
+import {
+  Auction,
+  AuctionStatus,
+  AuctionType,
+  Bid,
+  BidStatus,
+  IProxyBid,
+  ProxyBid,
+  ProxyBidStatus,
+} from '../models';
+import { AuctionService, BidRequirements, PlaceBidResult, WithdrawBidResult } from './AuctionService';
+import { LockService } from './LockService';
+import { config } from '../config';
+import {
+  AppError,
+  AuctionNotFoundError,
+  AuctionNotActiveError,
+  InvalidBidAmountError,
+  ProxyBidNotFoundError,
+  ProxyBidNotSupportedError,
+} from '../utils/errors';
+import { userRoom } from '../utils/rooms';
+
+export interface ProxyBidView {
+  auctionId: string;
+  maxAmount: number;
+  step: number;
+  status: ProxyBidStatus;
+  raisesCount: number;
+  lastRaisedAt: Date | null;
+  stoppedReason: string | null;
+  // Open bid total (what is locked right now), 0 without a bid
+  currentAmount: number;
+  // How much further the proxy may still raise
+  remainingBudget: number;
+}
+
+const PROXY_LOCK_TTL_MS = 15000;
+
+// Raises users' bids on their behalf, up to a maximum total, whenever they drop
+// out of the winning zone. Raises go through AuctionService.placeBid, so funds,
+// anti-snipe and leaderboard updates work exactly as for a manual bid; only the
+// current bid is ever locked, never the whole budget.
+//
+// A pass raises one proxy at a time and re-reads the ranking after each raise.
+// Every raise strictly increases someone's bid and no proxy goes above its
+// maxAmount, so proxy-vs-proxy duels always end; proxyMaxRaisesPerRun bounds a
+// single pass on top of that. Passes for one auction are serialized across
+// replicas by a Redis lock; a trigger that finds the lock busy leaves a dirty
+// flag for the holder to pick up.
+export class ProxyBidService {
+  private auctionService: AuctionService;
+  private redis: Redis;
+  private locks: LockService;
+  private io?: SocketIOServer;
+
+  constructor(auctionService: AuctionService, redis: Redis, io?: SocketIOServer, locks?: LockService) {
+    this.auctionService = auctionService;
+    this.redis = redis;
+    this.io = io;
+    this.locks = locks || new LockService(redis);
+  }
+
+  private getDirtyKey(auctionId: string): string {
+    return `proxy:dirty:${auctionId}`;
+  }
+
+  private async getOpenBidAmount(userId: mongoose.Types.ObjectId, auctionId: mongoose.Types.ObjectId): Promise<number> {
+    const bid = await Bid.findOne({
+      userId,
+      auctionId,
+      status: { $in: [BidStatus.ACTIVE, BidStatus.CARRIED_OVER] },
+    }).select('amount');
+
+    return bid ? bid.amount : 0;
+  }
+
+  private async toView(proxy: IProxyBid): Promise<ProxyBidView> {
+    const currentAmount = await this.getOpenBidAmount(proxy.userId, proxy.auctionId);
+
+    return {
+      auctionId: proxy.auctionId.toString(),
+      maxAmount: proxy.maxAmount,
+      step: proxy.step,
+      status: proxy.status,
+      raisesCount: proxy.raisesCount,
+      lastRaisedAt: proxy.lastRaisedAt,
+      stoppedReason: proxy.stoppedReason,
+      currentAmount,
+      remainingBudget: proxy.status === ProxyBidStatus.ACTIVE ? Math.max(0, proxy.maxAmount - currentAmount) : 0,
+    };
+  }
+
+  // Manual bids come through here so proxies get a chance to answer them. The
+  // answer runs in the background: the bidder's response should not wait for,
+  // or fail because of, other users' proxies. The scheduler's runAll catches
+  // anything a crashed pass leaves behind.
+  async placeBid(
+    userId: mongoose.Types.ObjectId,
+    auctionId: mongoose.Types.ObjectId,
+    amount: number
+  ): Promise<PlaceBidResult> {
+    const result = await this.auctionService.placeBid(userId, auctionId, amount);
+    this.runProxies(auctionId).catch(error => {
+      console.error(`Failed to run proxy bids for auction ${auctionId}:`, error);
+    });
+    return result;
+  }
+
+  // A proxy would bid again right after a withdrawal, so it is stopped too
+  async withdrawBid(userId: mongoose.Types.ObjectId, auctionId: mongoose.Types.ObjectId): Promise<WithdrawBidResult> {
+    const result = await this.auctionService.withdrawBid(userId, auctionId);
+
+    await ProxyBid.updateOne(
+      { userId, auctionId, status: ProxyBidStatus.ACTIVE },
+      { $set: { status: ProxyBidStatus.CANCELLED, stoppedReason: 'Bid withdrawn' } }
+    );
+
+    return result;
+  }
+
+  async setProxy(
+    userId: mongoose.Types.ObjectId,
+    auctionId: mongoose.Types.ObjectId,
+    maxAmount: number,
+    step: number
+  ): Promise<ProxyBidView> {
+    const auction = await Auction.findById(auctionId);
+
+    if (!auction) {
+      throw new AuctionNotFoundError(auctionId.toString());
+    }
+
+    // Dutch buys are one-shot and sealed rounds give the proxy nothing to react to
+    if (auction.type !== AuctionType.MULTI_ROUND) {
+      throw new ProxyBidNotSupportedError(auction.type);
+    }
+
+    if (auction.status !== AuctionStatus.ACTIVE && auction.status !== AuctionStatus.PENDING) {
+      throw new AuctionNotActiveError(auctionId.toString());
+    }
+
+    if (maxAmount < auction.minBid) {
+      throw new InvalidBidAmountError(`maxAmount must be at least the minimum bid of ${auction.minBid}`);
+    }
+
+    const currentAmount = await this.getOpenBidAmount(userId, auctionId);
+
+    if (maxAmount < currentAmount) {
+      throw new InvalidBidAmountError(`maxAmount is below your current bid of ${currentAmount}`);
+    }
+
+    const proxy = await ProxyBid.findOneAndUpdate(
+      { userId, auctionId },
+      {
+        $set: {
+          maxAmount,
+          step,
+          status: ProxyBidStatus.ACTIVE,
+          activatedAt: new Date(),
+          stoppedReason: null,
+        },
+        $setOnInsert: { raisesCount: 0, lastRaisedAt: null },
+      },
+      { upsert: true, new: true }
+    );
+
+    if (auction.status === AuctionStatus.ACTIVE) {
+      await this.runProxiesSafely(auctionId);
+    }
+
+    const current = await ProxyBid.findById(proxy._id);
+    return this.toView(current || proxy);
+  }
+
+  async getProxy(userId: mongoose.Types.ObjectId, auctionId: mongoose.Types.ObjectId): Promise<ProxyBidView> {
+    const proxy = await ProxyBid.findOne({ userId, auctionId });
+
+    if (!proxy) {
+      throw new ProxyBidNotFoundError(auctionId.toString());
+    }
+
+    return this.toView(proxy);
+  }
+
+  // Stops future raises; the current bid stays as it is
+  async cancelProxy(userId: mongoose.Types.ObjectId, auctionId: mongoose.Types.ObjectId): Promise<ProxyBidView> {
+    const proxy = await ProxyBid.findOneAndUpdate(
+      { userId, auctionId },
+      { $set: { status: ProxyBidStatus.CANCELLED, stoppedReason: 'Cancelled by owner' } },
+      { new: true }
+    );
+
+    if (!proxy) {
+      throw new ProxyBidNotFoundError(auctionId.toString());
+    }
+
+    return this.toView(proxy);
+  }
+
+  private async runProxiesSafely(auctionId: mongoose.Types.ObjectId): Promise<void> {
+    try {
+      await this.runProxies(auctionId);
+    } catch (error) {
+      // The triggering bid is already committed; the safety poll retries
+      console.error(`Failed to run proxy bids for auction ${auctionId}:`, error);
+    }
+  }
+
+  // Returns the number of raises made by this call
+  async runProxies(auctionId: mongoose.Types.ObjectId): Promise<number> {
+    const id = auctionId.toString();
+
+    if (!(await ProxyBid.exists({ auctionId, status: ProxyBidStatus.ACTIVE }))) {
+      return 0;
+    }
+
+    const dirtyKey = this.getDirtyKey(id);
+    await this.redis.set(dirtyKey, '1');
+
+    let raises = 0;
+
+    for (;;) {
+      const result = await this.locks.withLock(`proxy-bids:${id}`, PROXY_LOCK_TTL_MS, async () => {
+        let made = 0;
+        while ((await this.redis.del(dirtyKey)) === 1) {
+          made += await this.resolve(auctionId);
+        }
+        return made;
+      });
+
+      // The holder will see the dirty flag
+      if (result === null) {
+        return raises;
+      }
+
+      raises += result;
+
+      // A trigger may have set the flag after our last check but before the
+      // release, and then found the lock busy
+      if (!(await this.redis.exists(dirtyKey))) {
+        return raises;
+      }
+    }
+  }
+
+  // Safety net for passes lost with a crashed instance or cut short by the cap
+  async runAll(): Promise<void> {
+    const auctionIds: mongoose.Types.ObjectId[] = await ProxyBid.distinct('auctionId', {
+      status: ProxyBidStatus.ACTIVE,
+    });
+
+    for (const auctionId of auctionIds) {
+      const auction = await Auction.findById(auctionId).select('status');
+
+      if (!auction || auction.status === AuctionStatus.COMPLETED || auction.status === AuctionStatus.CANCELLED) {
+        await ProxyBid.updateMany(
+          { auctionId, status: ProxyBidStatus.ACTIVE },
+          { $set: { status: ProxyBidStatus.COMPLETED, stoppedReason: 'Auction ended' } }
+        );
+        continue;
+      }
+
+      if (auction.status === AuctionStatus.ACTIVE) {
+        await this.runProxiesSafely(auctionId);
+      }
+    }
+  }
+
+  // One pass: raise the oldest proxy that is out of the winning zone, then look
+  // again, until every proxy is winning, stopped, or the cap is hit
+  private async resolve(auctionId: mongoose.Types.ObjectId): Promise<number> {
+    let raises = 0;
+
+    while (raises < config.proxyMaxRaisesPerRun) {
+      const proxies = await ProxyBid.find({ auctionId, status: ProxyBidStatus.ACTIVE }).sort({ activatedAt: 1 });
+      let raised = false;
+
+      for (const proxy of proxies) {
+        let requirements: BidRequirements;
+        try {
+          requirements = await this.auctionService.getBidRequirements(auctionId, proxy.userId);
+        } catch (error) {
+          // No open round right now (finalizing, between rounds, ended); the
+          // scheduler runs proxies again once the next round starts
+          if (error instanceof AppError) {
+            return raises;
+          }
+          throw error;
+        }
+
+        if (requirements.isWinning) {
+          continue;
+        }
+
+        if (requirements.currentAmount === 0 && (await this.hasWonSince(proxy))) {
+          await this.stop(proxy, ProxyBidStatus.COMPLETED, 'Item won');
+          continue;
+        }
+
+        const needed = requirements.minAmountToWin;
+        const budget = proxy.maxAmount - requirements.currentAmount;
+
+        if (needed > budget) {
+          await this.stop(proxy, ProxyBidStatus.EXHAUSTED, `Winning now takes ${requirements.minTotalToWin}, above maxAmount`);
+          continue;
+        }
+
+        // Whole steps above the current bid, but never past the budget
+        const amount = Math.min(budget, Math.ceil(needed / proxy.step) * proxy.step);
+
+        try {
+          await this.auctionService.placeBid(proxy.userId, auctionId, amount);
+        } catch (error) {
+          if (error instanceof AppError) {
+            await this.stop(proxy, ProxyBidStatus.EXHAUSTED, error.message);
+            continue;
+          }
+          throw error;
+        }
+
+        proxy.raisesCount += 1;
+        proxy.lastRaisedAt = new Date();
+        await proxy.save();
+
+        this.notify(proxy, 'proxyRaised', {
+          roundNumber: requirements.roundNumber,
+          amount: requirements.currentAmount + amount,
+        });
+
+        raises++;
+        raised = true;
+        // The ranking changed; start over from the oldest proxy
+        break;
+      }
+
+      if (!raised) {
+        break;
+      }
+    }
+
+    if (raises >= config.proxyMaxRaisesPerRun) {
+      console.warn(`⚠️ Proxy bidding for auction ${auctionId} hit ${raises} raises in one pass, yielding`);
+    }
+
+    return raises;
+  }
+
+  private async hasWonSince(proxy: IProxyBid): Promise<boolean> {
+    const won = await Bid.exists({
+      userId: proxy.userId,
+      auctionId: proxy.auctionId,
+      status: BidStatus.WON,
+      wonAt: { $gte: proxy.activatedAt },
+    });
+
+    return won !== null;
+  }
+
+  private async stop(proxy: IProxyBid, status: ProxyBidStatus, reason: string): Promise<void> {
+    proxy.status = status;
+    proxy.stoppedReason = reason;
+    await proxy.save();
+
+    this.notify(proxy, status === ProxyBidStatus.COMPLETED ? 'proxyCompleted' : 'proxyExhausted', { reason });
+  }
+
+  private notify(proxy: IProxyBid, event: string, payload: Record<string, unknown>): void {
+    if (!this.io) {
+      return;
+    }
+
+    this.io.to(userRoom(proxy.userId.toString())).emit(event, {
+      auctionId: proxy.auctionId.toString(),
+      maxAmount: proxy.maxAmount,
+      ...payload,
+    });
+  }
+}
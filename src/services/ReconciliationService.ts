@@ -0,0 +1,193 @@
+import mongoose from 'mongoose';
+import { User, Bid, BidStatus, Offer, OfferStatus } from '../models';
+import { WalletService } from './WalletService';
+import { ReconciliationInProgressError } from '../utils/errors';
+
+export enum ReconciliationMode {
+  DRY_RUN = 'dry-run',
+  APPLY = 'apply',
+}
+
+export interface FrozenFundsDrift {
+  userId: string;
+  frozenFunds: number;
+  expectedFrozen: number;
+  drift: number;
+  openBids: number;
+  repaired: boolean;
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  mode: ReconciliationMode;
+  startedAt: Date;
+  finishedAt: Date;
+  usersChecked: number;
+  drifts: FrozenFundsDrift[];
+  repairedCount: number;
+}
+
+interface ExpectedHold {
+  amount: number;
+  openBids: number;
+}
+
+const OPEN_BID_STATUSES = [BidStatus.ACTIVE, BidStatus.CARRIED_OVER];
+
+export class ReconciliationService {
+  private walletService: WalletService;
+  private lastReport: ReconciliationReport | null = null;
+  private isRunning: boolean = false;
+
+  constructor(walletService: WalletService) {
+    this.walletService = walletService;
+  }
+
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  // Sum of open bid and pending marketplace offer amounts per user. This is what
+  // User.frozenFunds should equal.
+  private async computeExpectedHolds(
+    userIds?: mongoose.Types.ObjectId[],
+    session?: mongoose.ClientSession
+  ): Promise<Map<string, ExpectedHold>> {
+    const match: mongoose.FilterQuery<unknown> = { status: { $in: OPEN_BID_STATUSES } };
+    if (userIds) {
+      match.userId = { $in: userIds };
+    }
+
+    const rows = await Bid.aggregate<{ _id: mongoose.Types.ObjectId; amount: number; openBids: number }>([
+      { $match: match },
+      { $group: { _id: '$userId', amount: { $sum: '$amount' }, openBids: { $sum: 1 } } },
+    ]).session(session || null);
+
+    const offerMatch: mongoose.FilterQuery<unknown> = { status: OfferStatus.PENDING };
+    if (userIds) {
+      offerMatch.buyerId = { $in: userIds };
+    }
+
+    const offerRows = await Offer.aggregate<{ _id: mongoose.Types.ObjectId; amount: number }>([
+      { $match: offerMatch },
+      { $group: { _id: '$buyerId', amount: { $sum: '$amount' } } },
+    ]).session(session || null);
+
+    const holds = new Map<string, ExpectedHold>();
+    for (const row of rows) {
+      holds.set(row._id.toString(), { amount: row.amount, openBids: row.openBids });
+    }
+    for (const row of offerRows) {
+      const hold = holds.get(row._id.toString()) || { amount: 0, openBids: 0 };
+      holds.set(row._id.toString(), { ...hold, amount: hold.amount + row.amount });
+    }
+
+    return holds;
+  }
+
+  async reconcile(mode: ReconciliationMode = ReconciliationMode.DRY_RUN): Promise<ReconciliationReport> {
+    if (this.isRunning) {
+      throw new ReconciliationInProgressError();
+    }
+
+    this.isRunning = true;
+    const startedAt = new Date();
+
+    try {
+      const holds = await this.computeExpectedHolds();
+      const holderIds = Array.from(holds.keys()).map(id => new mongoose.Types.ObjectId(id));
+
+      // Users with open bids plus anyone holding frozen funds without an open bid
+      const users = await User.find({
+        $or: [{ _id: { $in: holderIds } }, { frozenFunds: { $gt: 0 } }],
+      }).select('_id frozenFunds');
+
+      const drifts: FrozenFundsDrift[] = [];
+
+      for (const user of users) {
+        const hold = holds.get(user._id.toString()) || { amount: 0, openBids: 0 };
+        const drift = user.frozenFunds - hold.amount;
+
+        if (drift === 0) {
+          continue;
+        }
+
+        const entry: FrozenFundsDrift = {
+          userId: user._id.toString(),
+          frozenFunds: user.frozenFunds,
+          expectedFrozen: hold.amount,
+          drift,
+          openBids: hold.openBids,
+          repaired: false,
+        };
+
+        if (mode === ReconciliationMode.APPLY) {
+          try {
+            entry.repaired = await this.repairUser(user._id);
+          } catch (error) {
+            entry.error = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        drifts.push(entry);
+      }
+
+      const report: ReconciliationReport = {
+        mode,
+        startedAt,
+        finishedAt: new Date(),
+        usersChecked: users.length,
+        drifts,
+        repairedCount: drifts.filter(d => d.repaired).length,
+      };
+
+      this.lastReport = report;
+
+      if (drifts.length > 0) {
+        console.warn(
+          `⚠️ Reconciliation (${mode}): ${drifts.length} users drifted, ${report.repairedCount} repaired`
+        );
+      }
+
+      return report;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // Re-reads the user and their open bids inside a transaction so a bid placed
+  // between the scan and the repair cannot be "corrected" away.
+  private async repairUser(userId: mongoose.Types.ObjectId): Promise<boolean> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const user = await User.findById(userId).session(session);
+      if (!user) {
+        await session.abortTransaction();
+        return false;
+      }
+
+      const holds = await this.computeExpectedHolds([userId], session);
+      const expected = holds.get(userId.toString())?.amount || 0;
+      const drift = user.frozenFunds - expected;
+
+      if (drift === 0) {
+        await session.abortTransaction();
+        return false;
+      }
+
+      await this.walletService.adjustFunds(userId, { frozenFunds: -drift }, session, {
+        reason: `Reconciliation: frozenFunds ${user.frozenFunds} -> ${expected}`,
+      });
+
+      await session.commitTransaction();
+      return true;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+}
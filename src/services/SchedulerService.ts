@@ -3,16 +3,34 @@ import mongoose from 'mongoose';
 import type { Server as SocketIOServer } from 'socket.io';
 import { Auction, AuctionStatus, RoundStatus } from '../models';
 import { AuctionService } from './AuctionService';
+import { ReconciliationService, ReconciliationMode } from './ReconciliationService';
+import { TimerService, TimerJob } from './TimerService';
+import { ProxyBidService } from './ProxyBidService';
+import { config } from '../config';
+import { auctionRoom } from '../utils/rooms';
 
 export class SchedulerService {
   private auctionService: AuctionService;
+  private reconciliationService?: ReconciliationService;
+  private timers?: TimerService;
+  private proxyBids?: ProxyBidService;
   private io?: SocketIOServer;
   private cronJob: cron.ScheduledTask | null = null;
+  private reconciliationJob: cron.ScheduledTask | null = null;
   private isProcessing: boolean = false;
 
-  constructor(auctionService: AuctionService, io?: SocketIOServer) {
+  constructor(
+    auctionService: AuctionService,
+    io?: SocketIOServer,
+    reconciliationService?: ReconciliationService,
+    timers?: TimerService,
+    proxyBids?: ProxyBidService
+  ) {
     this.auctionService = auctionService;
     this.io = io;
+    this.reconciliationService = reconciliationService;
+    this.timers = timers;
+    this.proxyBids = proxyBids;
   }
 
   start(): void {
@@ -21,14 +39,41 @@ export class SchedulerService {
       return;
     }
 
-    this.cronJob = cron.schedule('*/5 * * * * *', async () => {
+    // With timers, rounds end on their own timer and the poll is only a safety net
+    // for jobs lost with Redis or missed by a crashed instance
+    const pollCron = this.timers ? config.schedulerSafetyPollCron : '*/5 * * * * *';
+
+    this.cronJob = cron.schedule(pollCron, async () => {
       await this.checkAndProcessRounds();
     });
 
-    console.log('🕐 Scheduler started - checking rounds every 5 seconds');
+    console.log(`🕐 Scheduler started - polling rounds (${pollCron})`);
+
+    if (this.timers) {
+      this.startTimers().catch(error => {
+        console.error('❌ Failed to start round timers:', error);
+      });
+    }
+
+    if (this.reconciliationService) {
+      this.reconciliationJob = cron.schedule(config.reconciliationCron, async () => {
+        await this.runReconciliation();
+      });
+
+      console.log(`🧮 Reconciliation scheduled (${config.reconciliationCron})`);
+    }
   }
 
   stop(): void {
+    if (this.timers) {
+      this.timers.stop();
+    }
+
+    if (this.reconciliationJob) {
+      this.reconciliationJob.stop();
+      this.reconciliationJob = null;
+    }
+
     if (this.cronJob) {
       this.cronJob.stop();
       this.cronJob = null;
@@ -36,6 +81,106 @@ export class SchedulerService {
     }
   }
 
+  // Arms timers for everything already running or scheduled (e.g. auctions
+  // created before timers existed), then starts firing them
+  private async startTimers(): Promise<void> {
+    if (!this.timers) {
+      return;
+    }
+
+    const auctions = await Auction.find({
+      status: { $in: [AuctionStatus.ACTIVE, AuctionStatus.PENDING] },
+    }).select('_id status startAt rounds');
+
+    for (const auction of auctions) {
+      if (auction.status === AuctionStatus.PENDING) {
+        if (auction.startAt) {
+          await this.timers.scheduleAuctionStart(auction._id.toString(), auction.startAt);
+        }
+        continue;
+      }
+
+      const activeRound = auction.rounds.find(r => r.status === RoundStatus.ACTIVE);
+      if (activeRound) {
+        await this.timers.scheduleRoundEnd(auction._id.toString(), activeRound.roundNumber, activeRound.endTime);
+      }
+    }
+
+    await this.timers.start(job => this.handleTimer(job));
+    console.log(`⏱️ Round timers armed (${await this.timers.count()} pending)`);
+  }
+
+  // The stored time may be stale: another instance can extend a round or move
+  // a start. Mongo decides; if the job fired early it is re-armed for the real time.
+  private async handleTimer(job: TimerJob): Promise<void> {
+    const auctionId = new mongoose.Types.ObjectId(job.auctionId);
+    const auction = await Auction.findById(auctionId);
+    const now = new Date();
+
+    if (!auction) {
+      return;
+    }
+
+    if (job.type === 'auction-start') {
+      if (auction.status !== AuctionStatus.PENDING || !auction.startAt) {
+        return;
+      }
+
+      if (auction.startAt > now) {
+        await this.timers!.scheduleAuctionStart(job.auctionId, auction.startAt);
+        return;
+      }
+
+      if (await this.auctionService.activateAuction(auctionId)) {
+        console.log(`🚀 Auction ${job.auctionId} started`);
+        await this.runProxies(auctionId);
+      }
+      return;
+    }
+
+    const round = auction.rounds.find(r => r.roundNumber === job.roundNumber);
+
+    if (auction.status !== AuctionStatus.ACTIVE || !round || round.status !== RoundStatus.ACTIVE) {
+      return;
+    }
+
+    if (round.endTime > now) {
+      await this.timers!.scheduleRoundEnd(job.auctionId, job.roundNumber, round.endTime);
+      return;
+    }
+
+    console.log(`⏰ Round ${job.roundNumber} ended for auction ${job.auctionId}, processing...`);
+    await this.auctionService.processRoundEnd(auctionId, job.roundNumber);
+    // Bids carried into the next round may now sit outside its winning zone
+    await this.runProxies(auctionId);
+  }
+
+  private async runProxies(auctionId: mongoose.Types.ObjectId): Promise<void> {
+    if (!this.proxyBids) {
+      return;
+    }
+
+    try {
+      await this.proxyBids.runProxies(auctionId);
+    } catch (error) {
+      console.error(`❌ Proxy bidding failed for auction ${auctionId}:`, error);
+    }
+  }
+
+  private async runReconciliation(): Promise<void> {
+    if (!this.reconciliationService) {
+      return;
+    }
+
+    const mode = config.reconciliationAutoApply ? ReconciliationMode.APPLY : ReconciliationMode.DRY_RUN;
+
+    try {
+      await this.reconciliationService.reconcile(mode);
+    } catch (error) {
+      console.error('❌ Reconciliation error:', error);
+    }
+  }
+
   private async checkAndProcessRounds(): Promise<void> {
     if (this.isProcessing) {
       return;
@@ -46,6 +191,22 @@ export class SchedulerService {
     try {
       const now = new Date();
 
+      const dueAuctions = await Auction.find({
+        status: AuctionStatus.PENDING,
+        startAt: { $lte: now },
+      }).select('_id');
+
+      for (const due of dueAuctions) {
+        try {
+          const activated = await this.auctionService.activateAuction(due._id as mongoose.Types.ObjectId);
+          if (activated) {
+            console.log(`🚀 Auction ${due._id} started`);
+          }
+        } catch (error) {
+          console.error(`❌ Failed to activate auction ${due._id}:`, error);
+        }
+      }
+
       const auctionsWithExpiredRounds = await Auction.find({
         status: AuctionStatus.ACTIVE,
         'rounds': {
@@ -67,19 +228,10 @@ export class SchedulerService {
           );
 
           try {
-            const result = await this.auctionService.processRoundEnd(
+            await this.auctionService.processRoundEnd(
               auction._id as mongoose.Types.ObjectId,
               expiredRound.roundNumber
             );
-
-            if (this.io) {
-              this.io.emit('roundEnd', {
-                auctionId: auction._id.toString(),
-                roundNumber: expiredRound.roundNumber,
-                winnersCount: result.winnersCount,
-                nextRound: expiredRound.roundNumber < auction.totalRounds ? expiredRound.roundNumber + 1 : null,
-              });
-            }
           } catch (error) {
             console.error(
               `❌ Failed to process round ${expiredRound.roundNumber} for auction ${auction._id}:`,
@@ -88,6 +240,18 @@ export class SchedulerService {
           }
         }
       }
+
+      await this.recoverStuckRounds();
+
+      // Catches proxies whose trigger was lost (crash, Redis hiccup) or that
+      // yielded at proxyMaxRaisesPerRun
+      if (this.proxyBids) {
+        await this.proxyBids.runAll();
+      }
+
+      if (this.timers) {
+        await this.timers.sync();
+      }
     } catch (error) {
       console.error('❌ Scheduler error:', error);
     } finally {
@@ -95,6 +259,41 @@ export class SchedulerService {
     }
   }
 
+  // A round left in FINALIZING by a crash or a failed run is retried once its
+  // checkpoint has been idle for finalizationStuckTimeoutSeconds. The retry bumps
+  // the checkpoint, so a round that keeps failing alerts once per timeout.
+  private async recoverStuckRounds(): Promise<void> {
+    const stuckRounds = await this.auctionService.findStuckRounds(config.finalizationStuckTimeoutSeconds);
+
+    for (const stuck of stuckRounds) {
+      console.warn(
+        `🚨 Round ${stuck.roundNumber} of auction ${stuck.auctionId} stuck in FINALIZING ` +
+        `for ${stuck.stuckForSeconds}s (phase: ${stuck.phase ?? 'none'}, attempts: ${stuck.attempts}), retrying...`
+      );
+
+      // Finalization state is for operators (log above, GET /api/admin/rounds/stuck);
+      // bidders only learn that results are late
+      if (this.io) {
+        this.io.to(auctionRoom(stuck.auctionId)).emit('roundDelayed', {
+          auctionId: stuck.auctionId,
+          roundNumber: stuck.roundNumber,
+        });
+      }
+
+      try {
+        await this.auctionService.processRoundEnd(
+          new mongoose.Types.ObjectId(stuck.auctionId),
+          stuck.roundNumber
+        );
+      } catch (error) {
+        console.error(
+          `❌ Retry of round ${stuck.roundNumber} for auction ${stuck.auctionId} failed:`,
+          error
+        );
+      }
+    }
+  }
+
   async processRoundManually(
     auctionId: mongoose.Types.ObjectId,
     roundNumber: number
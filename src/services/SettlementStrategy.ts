@@ -0,0 +1,101 @@
+import mongoose from 'mongoose';
+import { IAuction, IRound, IFinalizationWinner, AuctionType, PricingMode } from '../models';
+import { LeaderboardService } from './LeaderboardService';
+import { getMinRaise } from '../utils/increments';
+
+export interface RoundSettlement {
+  winners: IFinalizationWinner[];
+  // Uniform price charged to every winner, null when each pays their own bid
+  clearingPrice: number | null;
+}
+
+// Decides who wins a round when it closes and what they pay. processRoundEnd
+// runs the same phases for every auction type (settle winners, then carry over
+// or refund the rest); the strategy only picks the winners and their price and
+// says whether live bids may be shown.
+export interface SettlementStrategy {
+  // Whether the ranking of an open round may be shown to bidders
+  readonly revealsBids: boolean;
+  selectWinners(auction: IAuction, round: IRound): Promise<RoundSettlement>;
+}
+
+// Highest bids win, ties go to whoever reached the amount first.
+// Bids below the round's reserve cannot win and stay with the losers.
+export class RankedSettlement implements SettlementStrategy {
+  readonly revealsBids: boolean;
+  private leaderboard: LeaderboardService;
+
+  constructor(leaderboard: LeaderboardService, revealsBids: boolean = true) {
+    this.leaderboard = leaderboard;
+    this.revealsBids = revealsBids;
+  }
+
+  async selectWinners(auction: IAuction, round: IRound): Promise<RoundSettlement> {
+    // One extra entry: the highest losing bid, for HIGHEST_LOSING_BID pricing
+    const top = await this.leaderboard.top(auction._id.toString(), round.roundNumber, round.itemsInRound + 1);
+
+    const ranked: { userId: string; amount: number }[] = [];
+    for (const entry of top.slice(0, round.itemsInRound)) {
+      if (entry.amount < round.reservePrice) {
+        break;
+      }
+      ranked.push(entry);
+    }
+
+    const highestLosing = top[ranked.length];
+    const clearingPrice = this.getClearingPrice(auction, round, ranked, highestLosing ? highestLosing.amount : null);
+
+    return {
+      winners: ranked.map((entry, i) => ({
+        userId: new mongoose.Types.ObjectId(entry.userId),
+        amount: entry.amount,
+        price: clearingPrice ?? entry.amount,
+        rank: i + 1,
+      })),
+      clearingPrice,
+    };
+  }
+
+  private getClearingPrice(
+    auction: IAuction,
+    round: IRound,
+    winners: { amount: number }[],
+    highestLosingAmount: number | null
+  ): number | null {
+    if (winners.length === 0 || auction.pricingMode === PricingMode.PAY_AS_BID) {
+      return null;
+    }
+
+    const lowestWinning = winners[winners.length - 1].amount;
+
+    if (auction.pricingMode === PricingMode.LOWEST_WINNING_BID) {
+      return lowestWinning;
+    }
+
+    // Without a losing bid the floor is the least anyone could have bid
+    const outbidPrice = highestLosingAmount !== null
+      ? highestLosingAmount + getMinRaise(auction.minIncrement, highestLosingAmount)
+      : Math.max(auction.minBid, round.reservePrice);
+
+    // Nobody pays more than they bid
+    return Math.min(lowestWinning, Math.max(outbidPrice, round.reservePrice));
+  }
+}
+
+// Dutch purchases are settled the moment they are made, so there is nothing
+// left to pick when the round closes
+export class DutchSettlement implements SettlementStrategy {
+  readonly revealsBids = true;
+
+  async selectWinners(): Promise<RoundSettlement> {
+    return { winners: [], clearingPrice: null };
+  }
+}
+
+export const createSettlementStrategies = (
+  leaderboard: LeaderboardService
+): Record<AuctionType, SettlementStrategy> => ({
+  [AuctionType.MULTI_ROUND]: new RankedSettlement(leaderboard),
+  [AuctionType.SEALED_BID]: new RankedSettlement(leaderboard, false),
+  [AuctionType.DUTCH]: new DutchSettlement(),
+});
@@ -0,0 +1,181 @@
+import type { Redis } from 'ioredis';
+
+export type TimerJob =
+  | { type: 'round-end'; auctionId: string; roundNumber: number }
+  | { type: 'auction-start'; auctionId: string };
+
+export type TimerHandler = (job: TimerJob) => Promise<void>;
+
+const TIMERS_KEY = 'timers:due';
+
+// setTimeout overflows past ~24.8 days; farther jobs are re-armed on the way
+const MAX_DELAY_MS = 2 ** 31 - 1;
+
+// A failed job is pushed back by this much instead of refiring immediately
+const RETRY_DELAY_MS = 5000;
+
+// Removes a fired job unless it was re-armed (new score) while being handled
+const REMOVE_IF_UNCHANGED_SCRIPT = `
+local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if score and tonumber(score) == tonumber(ARGV[2]) then
+  return redis.call('ZREM', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+const RESCHEDULE_IF_UNCHANGED_SCRIPT = `
+local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if score and tonumber(score) == tonumber(ARGV[2]) then
+  return redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+end
+return 0
+`;
+
+// Delayed jobs kept in a Redis sorted set (score = due time in ms), so they
+// survive restarts and are shared by all replicas. Each instance keeps a single
+// local setTimeout armed for the earliest job it knows about. Several replicas
+// may fire the same job; handlers must be idempotent.
+export class TimerService {
+  private redis: Redis;
+  private handler: TimerHandler | null = null;
+  private timeout: NodeJS.Timeout | null = null;
+  private armedFor: number | null = null;
+  private isFiring: boolean = false;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  private encode(job: TimerJob): string {
+    return job.type === 'round-end'
+      ? `round-end:${job.auctionId}:${job.roundNumber}`
+      : `auction-start:${job.auctionId}`;
+  }
+
+  private decode(member: string): TimerJob | null {
+    const [type, auctionId, roundNumber] = member.split(':');
+
+    if (type === 'round-end' && auctionId && roundNumber) {
+      return { type, auctionId, roundNumber: parseInt(roundNumber, 10) };
+    }
+
+    if (type === 'auction-start' && auctionId) {
+      return { type, auctionId };
+    }
+
+    return null;
+  }
+
+  // Adds the job or moves it to a new time
+  async schedule(job: TimerJob, at: Date): Promise<void> {
+    await this.redis.zadd(TIMERS_KEY, at.getTime(), this.encode(job));
+    this.arm(at.getTime());
+  }
+
+  async cancel(job: TimerJob): Promise<void> {
+    await this.redis.zrem(TIMERS_KEY, this.encode(job));
+  }
+
+  async scheduleRoundEnd(auctionId: string, roundNumber: number, endTime: Date): Promise<void> {
+    await this.schedule({ type: 'round-end', auctionId, roundNumber }, endTime);
+  }
+
+  async scheduleAuctionStart(auctionId: string, startAt: Date): Promise<void> {
+    await this.schedule({ type: 'auction-start', auctionId }, startAt);
+  }
+
+  async count(): Promise<number> {
+    return this.redis.zcard(TIMERS_KEY);
+  }
+
+  async start(handler: TimerHandler): Promise<void> {
+    this.handler = handler;
+    await this.sync();
+  }
+
+  stop(): void {
+    this.handler = null;
+    this.disarm();
+  }
+
+  // Re-arms the local timer from the earliest job in Redis. Picks up jobs
+  // scheduled by other replicas.
+  async sync(): Promise<void> {
+    const [, score] = await this.redis.zrange(TIMERS_KEY, 0, 0, 'WITHSCORES');
+
+    if (score !== undefined) {
+      this.arm(parseFloat(score));
+    }
+  }
+
+  private disarm(): void {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+    }
+    this.timeout = null;
+    this.armedFor = null;
+  }
+
+  private arm(at: number): void {
+    if (!this.handler || this.isFiring) {
+      return;
+    }
+
+    // Already armed for something sooner
+    if (this.armedFor !== null && this.armedFor <= at) {
+      return;
+    }
+
+    this.disarm();
+    this.armedFor = at;
+    this.timeout = setTimeout(() => {
+      this.armedFor = null;
+      this.timeout = null;
+      this.fire().catch(error => {
+        console.error('❌ Timer error:', error);
+      });
+    }, Math.min(MAX_DELAY_MS, Math.max(0, at - Date.now())));
+  }
+
+  private async fire(): Promise<void> {
+    if (!this.handler || this.isFiring) {
+      return;
+    }
+
+    this.isFiring = true;
+
+    try {
+      const due = await this.redis.zrangebyscore(TIMERS_KEY, '-inf', Date.now(), 'WITHSCORES');
+
+      for (let i = 0; i < due.length; i += 2) {
+        const member = due[i];
+        const score = due[i + 1];
+        const job = this.decode(member);
+
+        if (!job) {
+          await this.redis.zrem(TIMERS_KEY, member);
+          continue;
+        }
+
+        try {
+          await this.handler(job);
+          await this.redis.eval(REMOVE_IF_UNCHANGED_SCRIPT, 1, TIMERS_KEY, member, score);
+        } catch (error) {
+          console.error(`❌ Timer job ${member} failed:`, error);
+          await this.redis.eval(
+            RESCHEDULE_IF_UNCHANGED_SCRIPT,
+            1,
+            TIMERS_KEY,
+            member,
+            score,
+            Date.now() + RETRY_DELAY_MS
+          );
+        }
+      }
+    } finally {
+      this.isFiring = false;
+    }
+
+    await this.sync();
+  }
+}
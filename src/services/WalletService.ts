@@ -1,12 +1,53 @@
 import mongoose from 'mongoose';
-import { User, IUser } from '../models';
+import { User, IUser, LedgerEntry, ILedgerEntry, LedgerEntryType } from '../models';
 import { InsufficientFundsError, UserNotFoundError } from '../utils/errors';
 
+export interface LedgerReference {
+  auctionId?: mongoose.Types.ObjectId;
+  bidId?: mongoose.Types.ObjectId;
+  itemId?: mongoose.Types.ObjectId;
+  reason?: string;
+}
+
+export interface TransactionsPage {
+  entries: ILedgerEntry[];
+  nextCursor: string | null;
+}
+
 export class WalletService {
+  // Every balance movement is mirrored by a ledger entry written in the same session,
+  // so the entry commits or aborts together with the counter update.
+  // `user` is the post-update document; the "before" values are derived from the deltas.
+  private async recordEntry(
+    user: IUser,
+    type: LedgerEntryType,
+    amount: number,
+    deltas: { balance: number; frozenFunds: number },
+    ref: LedgerReference = {},
+    session?: mongoose.ClientSession
+  ): Promise<void> {
+    const entry = new LedgerEntry({
+      userId: user._id,
+      type,
+      amount,
+      balanceBefore: user.balance - deltas.balance,
+      balanceAfter: user.balance,
+      frozenBefore: user.frozenFunds - deltas.frozenFunds,
+      frozenAfter: user.frozenFunds,
+      auctionId: ref.auctionId,
+      bidId: ref.bidId,
+      itemId: ref.itemId,
+      reason: ref.reason,
+    });
+
+    await entry.save({ session });
+  }
+
   async lockFunds(
     userId: mongoose.Types.ObjectId,
     amount: number,
-    session?: mongoose.ClientSession
+    session?: mongoose.ClientSession,
+    ref?: LedgerReference
   ): Promise<IUser> {
     if (amount <= 0) {
       throw new InsufficientFundsError('Lock amount must be positive');
@@ -48,13 +89,16 @@ export class WalletService {
       );
     }
 
+    await this.recordEntry(user, LedgerEntryType.LOCK, amount, { balance: 0, frozenFunds: amount }, ref, session);
+
     return user;
   }
 
   async deductFunds(
     userId: mongoose.Types.ObjectId,
     amount: number,
-    session?: mongoose.ClientSession
+    session?: mongoose.ClientSession,
+    ref?: LedgerReference
   ): Promise<IUser> {
     if (amount <= 0) {
       throw new InsufficientFundsError('Deduct amount must be positive');
@@ -89,13 +133,16 @@ export class WalletService {
       );
     }
 
+    await this.recordEntry(user, LedgerEntryType.DEDUCT, amount, { balance: -amount, frozenFunds: -amount }, ref, session);
+
     return user;
   }
 
   async refundFunds(
     userId: mongoose.Types.ObjectId,
     amount: number,
-    session?: mongoose.ClientSession
+    session?: mongoose.ClientSession,
+    ref?: LedgerReference
   ): Promise<IUser> {
     if (amount <= 0) {
       throw new InsufficientFundsError('Refund amount must be positive');
@@ -123,9 +170,106 @@ export class WalletService {
       );
     }
 
+    await this.recordEntry(user, LedgerEntryType.REFUND, amount, { balance: 0, frozenFunds: -amount }, ref, session);
+
     return user;
   }
 
+  async depositFunds(
+    userId: mongoose.Types.ObjectId,
+    amount: number,
+    session?: mongoose.ClientSession,
+    ref?: LedgerReference
+  ): Promise<IUser> {
+    if (amount <= 0) {
+      throw new InsufficientFundsError('Deposit amount must be positive');
+    }
+
+    const user = await User.findOneAndUpdate(
+      { _id: userId },
+      { $inc: { balance: amount } },
+      { new: true, session }
+    );
+
+    if (!user) {
+      throw new UserNotFoundError(userId.toString());
+    }
+
+    await this.recordEntry(user, LedgerEntryType.DEPOSIT, amount, { balance: amount, frozenFunds: 0 }, ref, session);
+
+    return user;
+  }
+
+  // Manual correction of either counter. Deltas are signed; the update is rejected
+  // if it would drive balance or frozenFunds below zero.
+  async adjustFunds(
+    userId: mongoose.Types.ObjectId,
+    deltas: { balance?: number; frozenFunds?: number },
+    session?: mongoose.ClientSession,
+    ref?: LedgerReference
+  ): Promise<IUser> {
+    const balanceDelta = deltas.balance || 0;
+    const frozenDelta = deltas.frozenFunds || 0;
+
+    if (balanceDelta === 0 && frozenDelta === 0) {
+      throw new InsufficientFundsError('Adjustment must change balance or frozen funds');
+    }
+
+    const user = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        balance: { $gte: -balanceDelta },
+        frozenFunds: { $gte: -frozenDelta },
+      },
+      { $inc: { balance: balanceDelta, frozenFunds: frozenDelta } },
+      { new: true, session }
+    );
+
+    if (!user) {
+      const userExists = await User.findById(userId).session(session || null);
+      if (!userExists) {
+        throw new UserNotFoundError(userId.toString());
+      }
+      throw new InsufficientFundsError(
+        `Cannot adjust: balance (${userExists.balance}) or frozen funds (${userExists.frozenFunds}) would become negative`
+      );
+    }
+
+    await this.recordEntry(
+      user,
+      LedgerEntryType.ADJUSTMENT,
+      balanceDelta !== 0 ? balanceDelta : frozenDelta,
+      { balance: balanceDelta, frozenFunds: frozenDelta },
+      ref,
+      session
+    );
+
+    return user;
+  }
+
+  // Newest first. The cursor is the _id of the last entry of the previous page.
+  async getTransactions(
+    userId: mongoose.Types.ObjectId,
+    options: { limit?: number; cursor?: mongoose.Types.ObjectId } = {}
+  ): Promise<TransactionsPage> {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 200);
+
+    const filter: mongoose.FilterQuery<ILedgerEntry> = { userId };
+    if (options.cursor) {
+      filter._id = { $lt: options.cursor };
+    }
+
+    const entries = await LedgerEntry.find(filter).sort({ _id: -1 }).limit(limit + 1);
+
+    const hasMore = entries.length > limit;
+    const page = hasMore ? entries.slice(0, limit) : entries;
+
+    return {
+      entries: page,
+      nextCursor: hasMore ? page[page.length - 1]._id.toString() : null,
+    };
+  }
+
   async getBalance(userId: mongoose.Types.ObjectId): Promise<{
     balance: number;
     frozenFunds: number;
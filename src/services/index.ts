@@ -1,3 +1,34 @@
-export { WalletService, walletService } from './WalletService';
-export { AuctionService, PlaceBidResult } from './AuctionService';
+export { WalletService, walletService, LedgerReference, TransactionsPage } from './WalletService';
+export { AuctionService, PlaceBidResult, BidRequirements, RoundEndResult, StuckRound, WithdrawBidResult } from './AuctionService';
+export { ProxyBidService, ProxyBidView } from './ProxyBidService';
+export { IdempotencyService, StoredResponse } from './IdempotencyService';
+export {
+  ItemService,
+  TransferItemResult,
+  ProvenanceEntry,
+  ItemsPage,
+  UserItemsFilter,
+  AuctionItemsPage,
+  AuctionItemsStatus,
+  ItemDetail,
+  AssignmentCheck,
+  FairnessReport,
+} from './ItemService';
+export {
+  MarketplaceService,
+  SaleResult,
+  ListingsPage,
+  OffersPage,
+  OfferRole,
+} from './MarketplaceService';
 export { SchedulerService } from './SchedulerService';
+export { TimerService, TimerJob, TimerHandler } from './TimerService';
+export { LockService, Lock, LockHolder, LockMetrics } from './LockService';
+export { SettlementStrategy, RoundSettlement, RankedSettlement, DutchSettlement } from './SettlementStrategy';
+export { LeaderboardService, LeaderboardEntry, TIE_BREAK_RULE } from './LeaderboardService';
+export {
+  ReconciliationService,
+  ReconciliationMode,
+  ReconciliationReport,
+  FrozenFundsDrift,
+} from './ReconciliationService';
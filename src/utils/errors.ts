@@ -29,12 +29,54 @@ export class AuctionNotActiveError extends AppError {
   }
 }
 
+export class AuctionNotCancellableError extends AppError {
+  constructor(auctionId: string, status: string) {
+    super(`Auction ${auctionId} cannot be cancelled in status: ${status}`, 409);
+  }
+}
+
+export class AuctionNotPendingError extends AppError {
+  constructor(auctionId: string) {
+    super(`Auction can only be edited while pending: ${auctionId}`, 409);
+  }
+}
+
+export class InvalidAuctionScheduleError extends AppError {
+  constructor(message: string = 'Invalid auction schedule') {
+    super(message, 400);
+  }
+}
+
+export class InvalidItemTemplateError extends AppError {
+  constructor(message: string = 'Invalid item template') {
+    super(message, 400);
+  }
+}
+
+export class FairnessNotAvailableError extends AppError {
+  constructor(auctionId: string) {
+    super(`Auction ${auctionId} was created before provably fair item assignment`, 404);
+  }
+}
+
 export class RoundNotActiveError extends AppError {
   constructor(auctionId: string, roundNumber: number) {
     super(`Round ${roundNumber} is not active for auction: ${auctionId}`, 400);
   }
 }
 
+export class RoundNotFinalizingError extends AppError {
+  constructor(auctionId: string, roundNumber: number) {
+    super(`Round ${roundNumber} is not finalizing for auction: ${auctionId}`, 409);
+  }
+}
+
+export class RoundFinalizingError extends AppError {
+  constructor(auctionId: string, roundNumber: number) {
+    super(`Round ${roundNumber} of auction ${auctionId} is being finalized, try again shortly`, 409);
+  }
+}
+
 export class UserNotFoundError extends AppError {
   constructor(userId: string) {
     super(`User not found: ${userId}`, 404);
@@ -47,8 +89,158 @@ export class InvalidBidAmountError extends AppError {
   }
 }
 
+export class BidBelowMinimumError extends InvalidBidAmountError {
+  constructor(minBid: number) {
+    super(`Bid must be at least ${minBid}`);
+  }
+}
+
+export class BelowReservePriceError extends InvalidBidAmountError {
+  constructor(roundNumber: number, reservePrice: number) {
+    super(`Bid is below the reserve price of round ${roundNumber}: ${reservePrice}`);
+  }
+}
+
+export class BidIncrementTooSmallError extends InvalidBidAmountError {
+  constructor(minIncrement: number) {
+    super(`Bid increase must be at least ${minIncrement}`);
+  }
+}
+
+export class RaiseBelowWinningZoneError extends InvalidBidAmountError {
+  constructor(requiredTotal: number) {
+    super(`Raise does not reach the winning zone. Total bid must be at least ${requiredTotal}`);
+  }
+}
+
+export class PriceAboveLimitError extends InvalidBidAmountError {
+  constructor(currentPrice: number, limit: number) {
+    super(`Current price ${currentPrice} is above your limit of ${limit}`);
+  }
+}
+
+export class RoundSoldOutError extends AppError {
+  constructor(roundNumber: number) {
+    super(`All items of round ${roundNumber} are sold`, 409);
+  }
+}
+
+export class BidsHiddenError extends AppError {
+  constructor(roundNumber: number) {
+    super(`Bids in round ${roundNumber} are sealed until the round closes`, 403);
+  }
+}
+
+export class NoActiveBidError extends AppError {
+  constructor(auctionId: string) {
+    super(`No open bid in auction: ${auctionId}`, 404);
+  }
+}
+
+export class WithdrawalNotAllowedError extends AppError {
+  constructor(message: string = 'Bid withdrawal is not allowed') {
+    super(message, 409);
+  }
+}
+
+export class ItemNotFoundError extends AppError {
+  constructor(itemId: string) {
+    super(`Item not found: ${itemId}`, 404);
+  }
+}
+
+export class NotItemOwnerError extends AppError {
+  constructor(itemId: string) {
+    super(`You do not own item: ${itemId}`, 403);
+  }
+}
+
+export class ItemLockedError extends AppError {
+  constructor(itemId: string, reason: string) {
+    super(`Item ${itemId} cannot be transferred while ${reason}`, 409);
+  }
+}
+
+export class InvalidTransferError extends AppError {
+  constructor(message: string = 'Invalid transfer') {
+    super(message, 400);
+  }
+}
+
+export class ListingNotFoundError extends AppError {
+  constructor(listingId: string) {
+    super(`Listing not found: ${listingId}`, 404);
+  }
+}
+
+export class ListingNotActiveError extends AppError {
+  constructor(listingId: string) {
+    super(`Listing is no longer active: ${listingId}`, 409);
+  }
+}
+
+export class OfferNotFoundError extends AppError {
+  constructor(offerId: string) {
+    super(`Offer not found: ${offerId}`, 404);
+  }
+}
+
+export class OfferNotPendingError extends AppError {
+  constructor(offerId: string) {
+    super(`Offer is no longer pending: ${offerId}`, 409);
+  }
+}
+
+export class InvalidMarketActionError extends AppError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+export class ProxyBidNotFoundError extends AppError {
+  constructor(auctionId: string) {
+    super(`No proxy bid in auction: ${auctionId}`, 404);
+  }
+}
+
+export class ProxyBidNotSupportedError extends AppError {
+  constructor(auctionType: string) {
+    super(`Proxy bidding is not available for ${auctionType} auctions`, 400);
+  }
+}
+
+export class IdempotencyKeyReusedError extends AppError {
+  constructor(key: string) {
+    super(`Idempotency-Key ${key} was already used with a different request`, 409);
+  }
+}
+
+export class IdempotencyKeyInProgressError extends AppError {
+  constructor(key: string) {
+    super(`A request with Idempotency-Key ${key} is still being processed`, 409);
+  }
+}
+
 export class DuplicateBidError extends AppError {
   constructor(message: string = 'User already has an active bid in this auction') {
     super(message, 400);
   }
 }
+
+export class ReconciliationInProgressError extends AppError {
+  constructor() {
+    super('Reconciliation is already running', 409);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Unauthorized') {
+    super(message, 401);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden') {
+    super(message, 403);
+  }
+}
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+
+// Commit-reveal item assignment. Everything here is deterministic given the
+// revealed seed and data the auction already publishes, so anyone can redo it.
+
+export interface DrawEntry {
+  userId: string;
+  rank: number;
+}
+
+export const generateFairnessSeed = (): string => crypto.randomBytes(32).toString('hex');
+
+export const hashSeed = (seed: string): string => crypto.createHash('sha256').update(seed).digest('hex');
+
+// HMAC-SHA256(seed, "<auctionId>:<roundNumber>:<rank>:<userId>,...") in hex.
+// Any change to the ranked winners changes every draw of the round.
+export const drawKey = (seed: string, auctionId: string, roundNumber: number, entries: DrawEntry[]): string =>
+  crypto
+    .createHmac('sha256', seed)
+    .update(`${auctionId}:${roundNumber}:${entries.map(e => `${e.rank}:${e.userId}`).join(',')}`)
+    .digest('hex');
+
+// Uniform integer in [0, bound) from sha256("<key>:<counter>:<attempt>"),
+// rejecting the top of the 48-bit range to avoid modulo bias
+const uniformInt = (key: string, counter: number, bound: number): number => {
+  const range = 2 ** 48;
+  const limit = range - (range % bound);
+
+  for (let attempt = 0; ; attempt++) {
+    const value = crypto.createHash('sha256').update(`${key}:${counter}:${attempt}`).digest().readUIntBE(0, 6);
+    if (value < limit) {
+      return value % bound;
+    }
+  }
+};
+
+// Serials for the entries, in entry order: a partial Fisher-Yates over the
+// free serials sorted ascending, where step i swaps position i with i + uniformInt(key, i, n - i)
+export const drawSerials = (key: string, freeSerials: number[], count: number): number[] => {
+  const pool = [...freeSerials].sort((a, b) => a - b);
+  const drawn = Math.min(count, pool.length);
+
+  for (let i = 0; i < drawn; i++) {
+    const j = i + uniformInt(key, i, pool.length - i);
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool.slice(0, drawn);
+};
+
+// Serials 1..totalItems that nobody has been given yet
+export const freeSerials = (totalItems: number, taken: Iterable<number>): number[] => {
+  const used = new Set(taken);
+  const free: number[] = [];
+
+  for (let serial = 1; serial <= totalItems; serial++) {
+    if (!used.has(serial)) {
+      free.push(serial);
+    }
+  }
+
+  return free;
+};
@@ -0,0 +1,12 @@
+import { IMinIncrement, IncrementType } from '../models/Auction';
+
+// Smallest accepted raise over `currentAmount`, never below 1
+export const getMinRaise = (minIncrement: IMinIncrement, currentAmount: number): number => {
+  const { type, value } = minIncrement;
+
+  if (type === IncrementType.PERCENT) {
+    return Math.max(1, Math.ceil((currentAmount * value) / 100));
+  }
+
+  return Math.max(1, value);
+};
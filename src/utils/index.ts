@@ -1 +1,5 @@
 export * from './errors';
+export * from './rooms';
+export * from './increments';
+export * from './itemTemplate';
+export * from './fairness';
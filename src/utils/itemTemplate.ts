@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IItemTemplate } from '../models/Auction';
+import { ItemRarity } from '../models/Item';
+
+// Rarest first; weighted layouts put rarer tiers on lower serials unless shuffled
+const TIERS_RAREST_FIRST: ItemRarity[] = [
+  ItemRarity.LEGENDARY,
+  ItemRarity.EPIC,
+  ItemRarity.RARE,
+  ItemRarity.UNCOMMON,
+  ItemRarity.COMMON,
+];
+
+export const DEFAULT_NAME_PATTERN = '{title} #{serial}';
+
+export interface ItemData {
+  auctionId: mongoose.Types.ObjectId;
+  serialNumber: number;
+  ownerId: null;
+  roundWon: null;
+  wonAt: null;
+  acquiredAt: null;
+  bidId: null;
+  metadata: {
+    name: string;
+    description: string;
+    rarity: ItemRarity;
+    imageUrl: string | null;
+    attributes: Record<string, string | number | boolean>;
+  };
+}
+
+// Layout used when an auction has no template
+export const defaultRarities = (totalItems: number): ItemRarity[] =>
+  Array.from({ length: totalItems }, (_, i) =>
+    i < 3 ? ItemRarity.LEGENDARY : i < Math.floor(totalItems * 0.3) ? ItemRarity.EPIC : ItemRarity.RARE
+  );
+
+// Exact per-tier counts proportional to the weights (largest remainder method).
+// Leftover items go to the tiers with the largest fractional share, the more
+// common tier first on a tie.
+export const allocateByWeights = (
+  weights: Partial<Record<ItemRarity, number>>,
+  totalItems: number
+): ItemRarity[] => {
+  const tiers = TIERS_RAREST_FIRST.filter(tier => (weights[tier] || 0) > 0);
+  const totalWeight = tiers.reduce((sum, tier) => sum + weights[tier]!, 0);
+
+  const shares = tiers.map(tier => {
+    const exact = (weights[tier]! / totalWeight) * totalItems;
+    return { tier, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = totalItems - shares.reduce((sum, share) => sum + share.count, 0);
+  const byRemainder = [...shares].sort(
+    (a, b) => b.remainder - a.remainder || TIERS_RAREST_FIRST.indexOf(b.tier) - TIERS_RAREST_FIRST.indexOf(a.tier)
+  );
+  for (const share of byRemainder) {
+    if (leftover <= 0) break;
+    share.count++;
+    leftover--;
+  }
+
+  return shares.flatMap(share => Array<ItemRarity>(share.count).fill(share.tier));
+};
+
+// mulberry32 seeded from the SHA-256 of the seed string
+const createRandom = (seed: string): (() => number) => {
+  let state = crypto.createHash('sha256').update(seed).digest().readUInt32BE(0);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates; the same seed always gives the same order
+export const seededShuffle = <T>(values: T[], seed: string): T[] => {
+  const random = createRandom(seed);
+  const shuffled = [...values];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+};
+
+export const generateShuffleSeed = (): string => crypto.randomBytes(16).toString('hex');
+
+// Rarity of every serial number, index 0 = serial 1
+export const resolveRarities = (template: IItemTemplate | null, totalItems: number): ItemRarity[] => {
+  let rarities: ItemRarity[];
+
+  if (template && template.rarities) {
+    rarities = [...template.rarities];
+  } else if (template && template.rarityWeights) {
+    rarities = allocateByWeights(template.rarityWeights, totalItems);
+  } else {
+    rarities = defaultRarities(totalItems);
+  }
+
+  if (template && template.shuffle && template.shuffleSeed) {
+    rarities = seededShuffle(rarities, template.shuffleSeed);
+  }
+
+  return rarities;
+};
+
+const renderName = (pattern: string, values: { title: string; serial: number; rarity: ItemRarity }): string =>
+  pattern
+    .replace(/\{title\}/g, values.title)
+    .replace(/\{serial\}/g, String(values.serial))
+    .replace(/\{rarity\}/g, values.rarity);
+
+export const buildItemsData = (auction: {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  totalItems: number;
+  itemTemplate?: IItemTemplate | null;
+}): ItemData[] => {
+  const template = auction.itemTemplate || null;
+  const rarities = resolveRarities(template, auction.totalItems);
+  const namePattern = template ? template.namePattern : DEFAULT_NAME_PATTERN;
+  const description = (template && template.description) ?? auction.description ?? '';
+
+  return rarities.map((rarity, i) => ({
+    auctionId: auction._id,
+    serialNumber: i + 1,
+    ownerId: null,
+    roundWon: null,
+    wonAt: null,
+    acquiredAt: null,
+    bidId: null,
+    metadata: {
+      name: renderName(namePattern, { title: auction.title, serial: i + 1, rarity }),
+      description,
+      rarity,
+      imageUrl: template ? template.imageUrl : null,
+      attributes: template ? template.attributes : {},
+    },
+  }));
+};
@@ -0,0 +1,5 @@
+// Socket.IO room names. Auction rooms carry public auction events,
+// user rooms carry events addressed to a single bidder.
+export const auctionRoom = (auctionId: string): string => `auction:${auctionId}`;
+
+export const userRoom = (userId: string): string => `user:${userId}`;